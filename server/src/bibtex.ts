@@ -0,0 +1,214 @@
+import { Range } from "vscode-languageserver"
+
+/** An entry of a BibTeX file, e.g. `@article{key, title = {Title}}` */
+export interface IBibEntry {
+  /** the entry type in lowercase, e.g. "article" */
+  type: string
+  key: string
+  /** the field values, by lowercase name, with braces removed */
+  fields: { [name: string]: string }
+  /** the offset of the key in the text */
+  offset: number
+}
+
+/** A citable entry of a bibliography file of a project */
+export interface ICitationData extends IBibEntry {
+  /** the uri of the bibliography file */
+  uri: string
+  /** the range of the key */
+  range: Range
+}
+
+/** The macros which are predefined by BibTeX styles */
+const MONTHS: { [name: string]: string } = {
+  jan: "January",
+  feb: "February",
+  mar: "March",
+  apr: "April",
+  may: "May",
+  jun: "June",
+  jul: "July",
+  aug: "August",
+  sep: "September",
+  oct: "October",
+  nov: "November",
+  dec: "December"
+}
+
+/** Parse the entries of a BibTeX file, skipping any which are malformed
+ *
+ * `@string` macros are expanded, and `@comment` and `@preamble` blocks are ignored.
+ */
+export function parseBibtex(text: string): IBibEntry[] {
+  const entries: IBibEntry[] = []
+  const macros: { [name: string]: string } = { ...MONTHS }
+  const entryStart = /@\s*([a-zA-Z]+)\s*([{(])/g
+  let match: RegExpExecArray | null
+  while ((match = entryStart.exec(text))) {
+    const type = match[1].toLowerCase()
+    const bodyStart = match.index + match[0].length
+    const bodyEnd = findClosing(text, bodyStart, match[2] === "{" ? "}" : ")")
+    if (bodyEnd < 0) {
+      break
+    }
+    entryStart.lastIndex = bodyEnd + 1
+    if (type === "comment" || type === "preamble") {
+      continue
+    }
+    const body = text.slice(bodyStart, bodyEnd)
+    if (type === "string") {
+      const fields = parseFields(body, 0, macros)
+      Object.assign(macros, fields)
+      continue
+    }
+    const keyMatch = body.match(/^\s*([^\s,]+)\s*,/)
+    if (!keyMatch) {
+      continue
+    }
+    entries.push({
+      type,
+      key: keyMatch[1],
+      fields: parseFields(body, keyMatch[0].length, macros),
+      offset: bodyStart + keyMatch[0].indexOf(keyMatch[1])
+    })
+  }
+  return entries
+}
+
+/** Find the closing delimiter of an entry or value, i.e. `}` or `)`,
+ * skipping any (balanced) braces within it
+ *
+ * @returns the index of the closing delimiter, or -1 if it is not closed
+ */
+function findClosing(text: string, start: number, close: string): number {
+  let depth = 0
+  for (let i = start; i < text.length; i++) {
+    if (text[i] === close && !depth) {
+      return i
+    } else if (text[i] === "{") {
+      depth++
+    } else if (text[i] === "}") {
+      depth--
+      if (depth < 0) {
+        return -1
+      }
+    }
+  }
+  return -1
+}
+
+/** Parse the `name = value` fields of the body of an entry, starting at an offset */
+function parseFields(
+  body: string,
+  start: number,
+  macros: { [name: string]: string }
+): { [name: string]: string } {
+  const fields: { [name: string]: string } = {}
+  const fieldName = /\s*([a-zA-Z][\w:.-]*)\s*=\s*/y
+  let pos = start
+  while (pos < body.length) {
+    fieldName.lastIndex = pos
+    const match = fieldName.exec(body)
+    if (!match) {
+      break
+    }
+    pos = fieldName.lastIndex
+    // a value is a concatenation of parts, e.g. `"Part " # macro # {Part}`
+    const parts: string[] = []
+    while (pos < body.length) {
+      const char = body[pos]
+      if (char === "{" || char === '"') {
+        const end =
+          char === "{"
+            ? findClosing(body, pos + 1, "}")
+            : findClosingQuote(body, pos + 1)
+        if (end < 0) {
+          return fields
+        }
+        parts.push(body.slice(pos + 1, end))
+        pos = end + 1
+      } else {
+        const word = (body.slice(pos).match(/^[\w:.-]+/) || [""])[0]
+        if (!word) {
+          break
+        }
+        parts.push(/^\d+$/.test(word) ? word : macros[word.toLowerCase()] ?? word)
+        pos += word.length
+      }
+      const separator = body.slice(pos).match(/^\s*(#?)\s*/) as RegExpMatchArray
+      pos += separator[0].length
+      if (!separator[1]) {
+        break
+      }
+    }
+    fields[match[1].toLowerCase()] = cleanValue(parts.join(""))
+    const comma = body.slice(pos).match(/^\s*,?/) as RegExpMatchArray
+    pos += comma[0].length
+  }
+  return fields
+}
+
+/** Find the closing quote of a value, ignoring any quotes within braces */
+function findClosingQuote(text: string, start: number): number {
+  for (let i = start; i < text.length; i++) {
+    if (text[i] === "{") {
+      const end = findClosing(text, i + 1, "}")
+      if (end < 0) {
+        return -1
+      }
+      i = end
+    } else if (text[i] === '"') {
+      return i
+    }
+  }
+  return -1
+}
+
+/** Remove the braces and repeated whitespace from a value */
+function cleanValue(value: string): string {
+  return value
+    .replace(/(?<!\\)[{}]/g, "")
+    .replace(/\s+/g, " ")
+    .trim()
+}
+
+/** Format the names of an author (or editor) field, e.g. `Smith, Jane and Doe, J.` */
+function formatNames(names: string): string {
+  const formatted = names
+    .split(/\s+and\s+/)
+    .map(name => name.split(",").map(part => part.trim()))
+    .map(parts => (parts.length > 1 ? `${parts[1]} ${parts[0]}` : parts[0]))
+  if (formatted.length > 1) {
+    return `${formatted.slice(0, -1).join(", ")} and ${formatted[formatted.length - 1]}`
+  }
+  return formatted[0] || ""
+}
+
+/** Format an entry as markdown, e.g. for display in a hover */
+export function formatBibEntry(entry: IBibEntry): string {
+  const fields = entry.fields
+  const parts: string[] = []
+  const names = fields.author || fields.editor
+  if (names) {
+    parts.push(`${formatNames(names)}${fields.year ? ` (${fields.year})` : ""}.`)
+  } else if (fields.year) {
+    parts.push(`(${fields.year}).`)
+  }
+  if (fields.title) {
+    parts.push(`*${fields.title}*.`)
+  }
+  const source = fields.journal || fields.booktitle || fields.publisher || fields.school
+  if (source) {
+    parts.push(
+      `${source}${fields.volume ? `, ${fields.volume}` : ""}${
+        fields.pages ? `, ${fields.pages}` : ""
+      }.`
+    )
+  }
+  if (fields.doi) {
+    parts.push(`https://doi.org/${fields.doi}`)
+  } else if (fields.url) {
+    parts.push(fields.url)
+  }
+  return `**${entry.key}** (${entry.type})\n\n${parts.join(" ")}`
+}
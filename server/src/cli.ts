@@ -0,0 +1,400 @@
+#!/usr/bin/env node
+/* --------------------------------------------------------------------------------------------
+ * Licensed under the MIT License. See License file in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+import glob from "fast-glob"
+import fs from "fs"
+import path from "path"
+import { Diagnostic, DiagnosticSeverity } from "vscode-languageserver/node"
+import { TextDocument } from "vscode-languageserver-textdocument"
+import { URI } from "vscode-uri"
+
+import { CONFIG_FILE, mergeConfig, readConfigFile, ServerConfig } from "./config"
+import { DocCache } from "./database"
+import { cellUriGenerate, parseTextDocument } from "./parser"
+import { MystProject } from "./project"
+import { Server } from "./server"
+
+const CHECK_USAGE = `Usage: myst-lsp check [options] [paths...]
+
+Check MyST Markdown files and Jupyter notebooks, and print their diagnostics.
+Paths are relative to the project root, and must be within it (default: the root).
+Directories are searched for the files configured in myst.yml.
+
+Options:
+  --root <dir>       the project root directory, containing myst.yml (default: .)
+  --format <format>  the output format: text, json or sarif (default: text)
+  --fail-on <level>  exit with code 1 if there are diagnostics of this severity or higher:
+                     error, warning, information, hint or none (default: error)
+  -h, --help         show this message
+`
+
+const SEVERITIES: { [name: string]: DiagnosticSeverity } = {
+  error: DiagnosticSeverity.Error,
+  warning: DiagnosticSeverity.Warning,
+  information: DiagnosticSeverity.Information,
+  hint: DiagnosticSeverity.Hint
+}
+
+const SARIF_LEVELS: { [key: number]: string } = {
+  [DiagnosticSeverity.Error]: "error",
+  [DiagnosticSeverity.Warning]: "warning",
+  [DiagnosticSeverity.Information]: "note",
+  [DiagnosticSeverity.Hint]: "note"
+}
+
+export interface ICheckOptions {
+  root: string
+  format: "text" | "json" | "sarif"
+  failOn: string
+  /** the files and directories to check, relative to the root (default: the root) */
+  paths: string[]
+}
+
+/** A diagnostic for a file, relative to the project root */
+interface ICheckResult {
+  file: string
+  /** the index of the notebook cell, if the file is a notebook */
+  cell?: number
+  diagnostic: Diagnostic
+}
+
+export class UsageError extends Error {}
+
+/** Get the severity of a diagnostic, which is an error if not set */
+function getSeverity(diagnostic: Diagnostic): DiagnosticSeverity {
+  return diagnostic.severity || DiagnosticSeverity.Error
+}
+
+function severityName(severity: DiagnosticSeverity): string {
+  return Object.keys(SEVERITIES).find(name => SEVERITIES[name] === severity) || "error"
+}
+
+/** Parse the arguments of the check command
+ *
+ * @throws UsageError if the arguments are invalid
+ */
+export function parseCheckArgs(args: string[]): ICheckOptions {
+  const options: ICheckOptions = {
+    root: ".",
+    format: "text",
+    failOn: "error",
+    paths: []
+  }
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i]
+    if (arg === "--root" || arg === "--format" || arg === "--fail-on") {
+      const value = args[++i]
+      if (value === undefined) {
+        throw new UsageError(`Missing value for ${arg}`)
+      }
+      if (arg === "--root") {
+        options.root = value
+      } else if (arg === "--format") {
+        if (value !== "text" && value !== "json" && value !== "sarif") {
+          throw new UsageError(`Unknown format: ${value}`)
+        }
+        options.format = value
+      } else {
+        if (value !== "none" && !(value in SEVERITIES)) {
+          throw new UsageError(`Unknown severity: ${value}`)
+        }
+        options.failOn = value
+      }
+    } else if (arg.startsWith("-")) {
+      throw new UsageError(`Unknown option: ${arg}`)
+    } else {
+      options.paths.push(arg)
+    }
+  }
+  return options
+}
+
+/** Parse a file, and create its diagnostics, using the project index */
+function checkFile(
+  project: MystProject,
+  cache: DocCache,
+  filePath: string,
+  notebook: boolean
+): Diagnostic[][] {
+  const fileUri = URI.file(filePath)
+  const content = fs.readFileSync(filePath, "utf8")
+  const docs: (TextDocument | null)[] = []
+  if (notebook) {
+    const cells = JSON.parse(content).cells as { cell_type: string; source: string[] }[]
+    cells.forEach((cell, index) => {
+      if (cell.cell_type !== "markdown") {
+        docs.push(null)
+        return
+      }
+      const uri = cellUriGenerate(fileUri, index).toString()
+      docs.push(TextDocument.create(uri, "markdown", 0, cell.source.join("")))
+    })
+  } else {
+    docs.push(TextDocument.create(fileUri.toString(), "markdown", 0, content))
+  }
+  // all cells must be cached first, since definitions are shared between them
+  for (const doc of docs) {
+    if (!doc) {
+      continue
+    }
+    const data = parseTextDocument(doc, project.config)
+    cache.setData(doc.uri, {
+      tokens: data.tokens,
+      lineToTokenIndex: data.lineToTokenIndex,
+      defs: data.definitions,
+      footnotes: data.footnotes,
+      refs: data.references,
+      substitutions: data.substitutions,
+      diagnostics: data.diagnostics
+    })
+    if (notebook) {
+      cache.setParentToChildUri(fileUri.toString(), doc.uri)
+    }
+  }
+  const diagnostics = docs.map(doc =>
+    doc
+      ? [
+          ...(cache.getData(doc.uri)?.diagnostics || []),
+          ...project.getReferenceDiagnostics(cache, doc.uri, doc),
+          ...project.getTocDiagnostics(cache, doc.uri)
+        ]
+      : []
+  )
+  for (const doc of docs) {
+    if (doc) {
+      cache.removeUri(doc.uri)
+    }
+  }
+  cache.removeUri(fileUri.toString())
+  return diagnostics
+}
+
+function formatText(results: ICheckResult[]): string {
+  const lines = results.map(({ file, cell, diagnostic }) => {
+    const location = `${file}${cell === undefined ? "" : `[cell ${cell}]`}`
+    const { line, character } = diagnostic.range.start
+    const severity = severityName(getSeverity(diagnostic))
+    return `${location}:${line + 1}:${character + 1}: ${severity}: ${
+      diagnostic.message
+    }`
+  })
+  const counts = Object.entries(SEVERITIES)
+    .map(([name, severity]) => {
+      const count = results.filter(
+        result => getSeverity(result.diagnostic) === severity
+      ).length
+      return count ? `${count} ${name}` : ""
+    })
+    .filter(count => count)
+  lines.push(
+    results.length
+      ? `${results.length} problem(s): ${counts.join(", ")}`
+      : "No problems found"
+  )
+  return lines.join("\n")
+}
+
+function formatJson(results: ICheckResult[]): string {
+  return JSON.stringify(
+    results.map(({ file, cell, diagnostic }) => ({
+      file,
+      cell,
+      range: diagnostic.range,
+      severity: severityName(getSeverity(diagnostic)),
+      code: diagnostic.code,
+      message: diagnostic.message
+    })),
+    null,
+    2
+  )
+}
+
+/** Format results as a SARIF log, see: https://docs.oasis-open.org/sarif/sarif/v2.1.0/sarif-v2.1.0.html */
+function formatSarif(results: ICheckResult[], rootPath: string): string {
+  const sarif = {
+    $schema: "https://json.schemastore.org/sarif-2.1.0.json",
+    version: "2.1.0",
+    runs: [
+      {
+        tool: {
+          driver: {
+            name: "myst-lsp",
+            informationUri: "https://github.com/chrisjsewell/myst-lsp"
+          }
+        },
+        originalUriBaseIds: {
+          ROOT: { uri: `${URI.file(rootPath).toString()}/` }
+        },
+        results: results.map(({ file, cell, diagnostic }) => {
+          const { start, end } = diagnostic.range
+          // regions cannot point inside notebook cells, so the cell position is in the message
+          const message =
+            cell === undefined
+              ? diagnostic.message
+              : `[cell ${cell}, line ${start.line + 1}] ${diagnostic.message}`
+          return {
+            ruleId: diagnostic.code,
+            level: SARIF_LEVELS[getSeverity(diagnostic)],
+            message: { text: message },
+            locations: [
+              {
+                physicalLocation: {
+                  artifactLocation: { uri: file, uriBaseId: "ROOT" },
+                  region:
+                    cell === undefined
+                      ? {
+                          startLine: start.line + 1,
+                          startColumn: start.character + 1,
+                          endLine: end.line + 1,
+                          endColumn: end.character + 1
+                        }
+                      : undefined
+                }
+              }
+            ]
+          }
+        })
+      }
+    ]
+  }
+  return JSON.stringify(sarif, null, 2)
+}
+
+/** Check the files of a project, print their diagnostics, and return the exit code */
+export async function check(args: string[]): Promise<number> {
+  let options: ICheckOptions
+  try {
+    options = parseCheckArgs(args)
+  } catch (e) {
+    if (e instanceof UsageError) {
+      console.error(`${e.message}\n\n${CHECK_USAGE}`)
+      return 2
+    }
+    throw e
+  }
+  const rootPath = path.resolve(options.root)
+  if (!fs.existsSync(rootPath) || !fs.statSync(rootPath).isDirectory()) {
+    console.error(`Root is not a directory: ${options.root}`)
+    return 2
+  }
+  const rootUri = URI.file(rootPath).toString()
+
+  // load the configuration and index the whole project, so that references can be resolved
+  let config: ServerConfig
+  try {
+    config = mergeConfig(readConfigFile(rootPath))
+  } catch (e) {
+    console.error(`Reading ${CONFIG_FILE} failed: ${e}`)
+    return 2
+  }
+  const project = new MystProject(rootUri, config)
+  await project.index({ cellUris: true, onWarning: message => console.error(message) })
+  const cache = new DocCache()
+
+  // collect the files to check
+  const files = new Map<string, boolean>()
+  for (const inputPath of options.paths.length ? options.paths : ["."]) {
+    const fullPath = path.resolve(rootPath, inputPath)
+    const relPath = path.relative(rootPath, fullPath)
+    if (
+      relPath === ".." ||
+      relPath.startsWith(`..${path.sep}`) ||
+      path.isAbsolute(relPath)
+    ) {
+      console.error(`Path is outside the project root: ${inputPath}`)
+      return 2
+    }
+    if (!fs.existsSync(fullPath)) {
+      console.error(`No such file or directory: ${inputPath}`)
+      return 2
+    }
+    if (fs.statSync(fullPath).isDirectory()) {
+      const globOptions = { cwd: fullPath, absolute: true, ignore: config.files.ignore }
+      for (const file of await glob(config.files.text, globOptions)) {
+        files.set(path.normalize(file), false)
+      }
+      for (const file of await glob(config.files.jupyter, globOptions)) {
+        files.set(path.normalize(file), true)
+      }
+    } else {
+      files.set(fullPath, fullPath.endsWith(".ipynb"))
+    }
+  }
+
+  const results: ICheckResult[] = []
+  // the table of contents is checked along with the project
+  if (project.toc) {
+    const file = path
+      .relative(rootPath, URI.parse(project.toc.uri).fsPath)
+      .split(path.sep)
+      .join("/")
+    for (const diagnostic of project.getTocFileDiagnostics()) {
+      results.push({ file, diagnostic })
+    }
+  }
+  for (const filePath of [...files.keys()].sort()) {
+    const file = path.relative(rootPath, filePath).split(path.sep).join("/")
+    const notebook = files.get(filePath) || false
+    let diagnostics: Diagnostic[][]
+    try {
+      diagnostics = checkFile(project, cache, filePath, notebook)
+    } catch (e) {
+      console.error(`Checking ${file} failed: ${e}`)
+      return 2
+    }
+    diagnostics.forEach((cellDiagnostics, index) => {
+      const sorted = [...cellDiagnostics].sort(
+        (a, b) =>
+          a.range.start.line - b.range.start.line ||
+          a.range.start.character - b.range.start.character
+      )
+      for (const diagnostic of sorted) {
+        results.push({ file, cell: notebook ? index : undefined, diagnostic })
+      }
+    })
+  }
+
+  if (options.format === "json") {
+    console.log(formatJson(results))
+  } else if (options.format === "sarif") {
+    console.log(formatSarif(results, rootPath))
+  } else {
+    console.log(formatText(results))
+  }
+
+  if (options.failOn === "none") {
+    return 0
+  }
+  const failSeverity = SEVERITIES[options.failOn]
+  return results.some(result => getSeverity(result.diagnostic) <= failSeverity) ? 1 : 0
+}
+
+const USAGE = `Usage: myst-lsp [--stdio | --node-ipc | --socket=<port>]
+       myst-lsp check [options] [paths...]
+
+Start the MyST language server, or check a MyST project from the command line.
+Run "myst-lsp check --help" for the check options.
+`
+
+if (require.main === module) {
+  const args = process.argv.slice(2)
+  // the exit code is set rather than exiting, so that piped output is not truncated
+  if (args[0] === "check" && (args.includes("-h") || args.includes("--help"))) {
+    console.log(CHECK_USAGE)
+  } else if (args[0] === "check") {
+    check(args.slice(1)).then(
+      code => {
+        process.exitCode = code
+      },
+      error => {
+        console.error(error)
+        process.exitCode = 2
+      }
+    )
+  } else if (args.includes("-h") || args.includes("--help")) {
+    console.log(USAGE)
+  } else {
+    new Server()
+  }
+}
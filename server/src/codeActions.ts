@@ -0,0 +1,334 @@
+import { normalizeReference } from "markdown-it/lib/common/utils"
+import Token from "markdown-it/lib/token"
+import {
+  CodeAction,
+  CodeActionKind,
+  Diagnostic,
+  Range,
+  TextEdit
+} from "vscode-languageserver"
+import { TextDocument } from "vscode-languageserver-textdocument"
+
+import * as dirDict from "./directives.json"
+import { parseDirectiveOptions } from "./directiveUtils"
+import { TARGET_PATTERN } from "./mditPlugins/mystBlocks"
+import { MystProject } from "./project"
+import { LINK_TARGET_TYPES } from "./referenceUtils"
+import * as roleDict from "./roles.json"
+import { ROLE_TARGET_TYPES } from "./roleUtils"
+import { closestMatches, getLine, slugify } from "./utils"
+
+/** Get the text of a line, without its line ending */
+function lineText(doc: TextDocument, line: number): string {
+  return getLine(doc, line).replace(/\r?\n$/, "")
+}
+
+/** Create an action which applies edits to a single document */
+function createAction(
+  title: string,
+  kind: CodeActionKind,
+  doc: TextDocument,
+  edits: TextEdit[],
+  diagnostic?: Diagnostic
+): CodeAction {
+  return {
+    title,
+    kind,
+    diagnostics: diagnostic ? [diagnostic] : undefined,
+    edit: { changes: { [doc.uri]: edits } }
+  }
+}
+
+/** Create quick fixes, to replace a misspelled name by the closest matches */
+function replaceNameFixes(
+  doc: TextDocument,
+  diagnostic: Diagnostic,
+  candidates: Iterable<string>
+): CodeAction[] {
+  const name = doc.getText(diagnostic.range)
+  return closestMatches(name, candidates).map((match, index) => ({
+    ...createAction(
+      `Change to "${match}"`,
+      CodeActionKind.QuickFix,
+      doc,
+      [TextEdit.replace(diagnostic.range, match)],
+      diagnostic
+    ),
+    isPreferred: index === 0
+  }))
+}
+
+/** Create quick fixes for a duplicate definition, i.e. rename its key or delete it */
+function duplicateDefinitionFixes(
+  doc: TextDocument,
+  diagnostic: Diagnostic,
+  tokens: Token[]
+): CodeAction[] {
+  const line = diagnostic.range.start.line
+  const token = tokens.find(
+    token => token.type === "definition" && token.map?.[0] === line
+  )
+  const match = lineText(doc, line).match(/^(\s*\[)([^\]]+)\]:/)
+  if (!token?.map || !match) {
+    return []
+  }
+  const keys = new Set(tokens.filter(t => t.type === "definition").map(t => t.meta.key))
+  let count = 2
+  while (keys.has(normalizeReference(`${match[2]}-${count}`))) {
+    count++
+  }
+  const label = `${match[2]}-${count}`
+  const start = match[1].length
+  return [
+    createAction(
+      `Rename definition key to "${label}"`,
+      CodeActionKind.QuickFix,
+      doc,
+      [
+        TextEdit.replace(
+          {
+            start: { line, character: start },
+            end: { line, character: start + match[2].length }
+          },
+          label
+        )
+      ],
+      diagnostic
+    ),
+    createAction(
+      "Delete duplicate definition",
+      CodeActionKind.QuickFix,
+      doc,
+      [
+        TextEdit.del({
+          start: { line: token.map[0], character: 0 },
+          // the map of a definition includes its last line
+          end: { line: token.map[1] + 1, character: 0 }
+        })
+      ],
+      diagnostic
+    )
+  ]
+}
+
+/** Create a quick fix to remove an unknown directive option,
+ * including any continuation lines of its value
+ */
+function removeOptionFix(doc: TextDocument, diagnostic: Diagnostic): CodeAction[] {
+  const key = diagnostic.message.replace(/^Unknown directive option: /, "")
+  const line = diagnostic.range.start.line
+  const text = lineText(doc, line)
+  const match = text.match(/^\s*(:?)([^:\s][^:]*):/)
+  if (match?.[2] !== key) {
+    return []
+  }
+  const colon = match[1] === ":"
+  let end = line + 1
+  while (end < doc.lineCount) {
+    const next = lineText(doc, end)
+    if (!(colon ? next.match(/^:\s/) : next.match(/^\s+\S/))) {
+      break
+    }
+    end++
+  }
+  return [
+    createAction(
+      `Remove option "${key}"`,
+      CodeActionKind.QuickFix,
+      doc,
+      [
+        TextEdit.del({
+          start: { line, character: 0 },
+          end: { line: end, character: 0 }
+        })
+      ],
+      diagnostic
+    )
+  ]
+}
+
+/** Create quick fixes for the diagnostics of a document */
+export function getQuickFixes(
+  doc: TextDocument,
+  diagnostics: Diagnostic[],
+  tokens: Token[],
+  project: MystProject
+): CodeAction[] {
+  const actions: CodeAction[] = []
+  for (const diagnostic of diagnostics) {
+    switch (diagnostic.code) {
+      case "unknown-directive":
+        actions.push(...replaceNameFixes(doc, diagnostic, Object.keys(dirDict)))
+        break
+      case "unknown-role":
+        actions.push(...replaceNameFixes(doc, diagnostic, Object.keys(roleDict)))
+        break
+      case "unknown-target": {
+        const type: string = diagnostic.data?.type || "link"
+        const types = ROLE_TARGET_TYPES[type] || LINK_TARGET_TYPES
+        const names = [...project.db.iterTargets(true, { type: { $in: types } })].map(
+          target => target.name
+        )
+        actions.push(...replaceNameFixes(doc, diagnostic, names))
+        break
+      }
+      case "duplicate-definition":
+        actions.push(...duplicateDefinitionFixes(doc, diagnostic, tokens))
+        break
+      case "unknown-option":
+        actions.push(...removeOptionFix(doc, diagnostic))
+        break
+    }
+  }
+  return actions
+}
+
+/** Create an action to convert a directive code fence to a colon fence,
+ * which requires its options to be `:key: value` lines
+ */
+function colonFenceAction(
+  doc: TextDocument,
+  token: Token,
+  eol: string
+): CodeAction | null {
+  if (!token.map) {
+    return null
+  }
+  const [start, end] = token.map
+  const open = lineText(doc, start).match(/^(\s*)(`{3,}|~{3,})(.*)$/)
+  const close = lineText(doc, end - 1).match(/^(\s*)(`{3,}|~{3,})\s*$/)
+  if (!open || !close || end - 1 <= start) {
+    return null
+  }
+  const content: string[] = []
+  for (let line = start + 1; line < end - 1; line++) {
+    content.push(lineText(doc, line))
+  }
+  const edits: TextEdit[] = []
+  const opts = parseDirectiveOptions(content)
+  if (opts.numLines && content[0].trim() === "---") {
+    const yamlLines = content.slice(1, opts.numLines - 1)
+    if (yamlLines.some(line => !line.trim() || line.startsWith(":"))) {
+      return null
+    }
+    edits.push(
+      TextEdit.replace(
+        {
+          start: { line: start + 1, character: 0 },
+          end: { line: start + 1 + opts.numLines, character: 0 }
+        },
+        yamlLines.map(line => `:${line}${eol}`).join("")
+      )
+    )
+  }
+  if (content[opts.numLines]?.startsWith(":")) {
+    // the first content line would be read as an option
+    return null
+  }
+  // the fence must be longer than any colon fences in its content
+  let length = 3
+  for (const line of content) {
+    const inner = line.match(/^\s*(:{3,})/)
+    if (inner) {
+      length = Math.max(length, inner[1].length + 1)
+    }
+  }
+  const marker = ":".repeat(length)
+  edits.unshift(
+    TextEdit.replace(
+      {
+        start: { line: start, character: open[1].length },
+        end: { line: start, character: open[1].length + open[2].length }
+      },
+      marker
+    )
+  )
+  edits.push(
+    TextEdit.replace(
+      {
+        start: { line: end - 1, character: close[1].length },
+        end: { line: end - 1, character: close[0].length }
+      },
+      marker
+    )
+  )
+  return createAction(
+    "Convert to colon fence",
+    CodeActionKind.RefactorRewrite,
+    doc,
+    edits
+  )
+}
+
+/** Create an action to add a target above a heading, named by the heading's slug */
+function headingTargetAction(
+  doc: TextDocument,
+  tokens: Token[],
+  index: number,
+  project: MystProject,
+  eol: string
+): CodeAction | null {
+  const line = tokens[index].map?.[0] as number
+  let previous = line - 1
+  while (previous >= 0 && !lineText(doc, previous).trim()) {
+    previous--
+  }
+  if (previous >= 0 && TARGET_PATTERN.test(lineText(doc, previous).trim())) {
+    // the heading already has a target
+    return null
+  }
+  const slug = slugify(tokens[index + 1]?.content || "")
+  const names = new Set(
+    [...project.db.iterTargets(true, { type: { $in: LINK_TARGET_TYPES } })].map(
+      target => target.name
+    )
+  )
+  let label = slug
+  for (let count = 1; names.has(label); count++) {
+    label = `${slug}-${count}`
+  }
+  if (!slug || !TARGET_PATTERN.test(`(${label})=`)) {
+    return null
+  }
+  const blank = line > 0 && lineText(doc, line - 1).trim() ? eol : ""
+  return createAction(
+    `Add target "(${label})=" above heading`,
+    CodeActionKind.Refactor,
+    doc,
+    [TextEdit.insert({ line, character: 0 }, `${blank}(${label})=${eol}${eol}`)]
+  )
+}
+
+/** Create refactoring actions for the MyST constructs at the start of a range */
+export function getRefactorActions(
+  doc: TextDocument,
+  range: Range,
+  tokens: Token[],
+  project: MystProject
+): CodeAction[] {
+  const eol = doc.getText().includes("\r\n") ? "\r\n" : "\n"
+  const line = range.start.line
+  const actions: CodeAction[] = []
+  tokens.forEach((token, index) => {
+    if (!token.map || line < token.map[0] || line >= token.map[1]) {
+      return
+    }
+    if (
+      token.type === "fence" &&
+      token.info.match(/^{[^}]+}/) &&
+      project.config.parsing.extensions.includes("colon_fence")
+    ) {
+      const action = colonFenceAction(doc, token, eol)
+      if (action) {
+        actions.push(action)
+      }
+    }
+    if (token.type === "heading_open") {
+      const action = headingTargetAction(doc, tokens, index, project, eol)
+      if (action) {
+        actions.push(action)
+      }
+    }
+  })
+  return actions
+}
@@ -0,0 +1,528 @@
+import glob from "fast-glob"
+import fs from "fs"
+import Token from "markdown-it/lib/token"
+import micromatch from "micromatch"
+import path from "path"
+import url from "url"
+import {
+  CompletionItem,
+  CompletionItemKind,
+  MarkupKind,
+  Position,
+  TextDocumentPositionParams,
+  TextEdit
+} from "vscode-languageserver"
+import { TextDocument } from "vscode-languageserver-textdocument"
+import { URI } from "vscode-uri"
+
+import { formatBibEntry } from "./bibtex"
+import { CONFIG_FILE } from "./config"
+import * as dirDict from "./directives.json"
+import {
+  makeDescription,
+  matchDirectiveStart,
+  OPTION_TYPES,
+  parseDirectiveOptions
+} from "./directiveUtils"
+import { completeFrontMatter, inFrontMatter } from "./frontmatter"
+import { IWorkspace } from "./project"
+import { isCiteRole, LINK_TARGET_TYPES } from "./referenceUtils"
+import * as roleDict from "./roles.json"
+import { makeRoleDescription, matchRoleContent, ROLE_TARGET_TYPES } from "./roleUtils"
+import { getLine } from "./utils"
+
+/** Identify the completions for a position in a document */
+export function getCompletions(
+  workspace: IWorkspace,
+  textDocumentPosition: TextDocumentPositionParams
+): CompletionItem[] {
+  const doc = workspace.getDocument(textDocumentPosition.textDocument.uri)
+  if (doc && workspace.getProject(doc.uri).isTocDocument(doc.uri)) {
+    return [...completeTocEntry(workspace, doc, textDocumentPosition.position)]
+  }
+  const docData = workspace.cache.getData(textDocumentPosition.textDocument.uri)
+  if (!docData || !doc) {
+    return []
+  }
+
+  const indexes = docData.lineToTokenIndex[textDocumentPosition.position.line] || []
+
+  const completionItems: CompletionItem[] = []
+  for (const index of indexes) {
+    const token = docData.tokens[index]
+    if (
+      token.map &&
+      textDocumentPosition.position.line === token.map[0] &&
+      (token.type === "fence" || token.type === "div_open")
+    ) {
+      const matchDir = matchDirectiveStart(doc, textDocumentPosition)
+      if (matchDir) {
+        for (const name in dirDict) {
+          if (name.startsWith(matchDir.partial)) {
+            completionItems.push({
+              label: name,
+              kind: CompletionItemKind.Class,
+              detail: "MyST directive",
+              data: "myst.directive",
+              textEdit: completetionTextEdit(
+                name,
+                matchDir.partial,
+                textDocumentPosition.position
+              )
+            })
+          }
+        }
+      }
+    } else if (
+      token.map &&
+      textDocumentPosition.position.line > token.map[0] &&
+      (token.type === "fence" || token.type === "div_open")
+    ) {
+      completionItems.push(
+        ...completeDirectiveOption(workspace, doc, token, textDocumentPosition.position)
+      )
+    } else if (inFrontMatter(token, textDocumentPosition.position.line)) {
+      completionItems.push(...completeFrontMatter(token, textDocumentPosition.position))
+    } else if (token.type === "inline") {
+      const line = getLine(doc, textDocumentPosition.position.line)
+      completionItems.push(
+        ...completeInlineCursor(
+          workspace,
+          textDocumentPosition.textDocument.uri,
+          textDocumentPosition.position,
+          line
+        )
+      )
+    }
+  }
+  return completionItems
+}
+
+/** Identify possible completions for a cursor in an inline block */
+function* completeInlineCursor(
+  workspace: IWorkspace,
+  uri: string,
+  cursor: Position,
+  content: string
+): IterableIterator<CompletionItem> {
+  const before: string = content.slice(0, cursor.character)
+
+  const matchFootnote = before.match(/\[\^([^\]\s]*)$/)
+  if (matchFootnote) {
+    const start = matchFootnote[1]
+    const labels = new Set<string>()
+    for (const footnote of workspace.cache.iterFootnotes(uri)) {
+      if (footnote.label.startsWith(start) && !labels.has(footnote.label)) {
+        labels.add(footnote.label)
+        yield {
+          label: footnote.label,
+          kind: CompletionItemKind.Reference,
+          detail: "MyST footnote",
+          data: "myst.footnote",
+          textEdit: completetionTextEdit(footnote.label, start, cursor)
+        }
+      }
+    }
+    return
+  }
+
+  const matchRefLink = before.match(/\]\([<]?([^(]*)$/)
+  if (matchRefLink) {
+    const start = matchRefLink[1]
+    const hashIndex = start.indexOf("#")
+    if (hashIndex >= 0) {
+      yield* completeHeadingAnchor(
+        workspace,
+        uri,
+        start.slice(0, hashIndex),
+        start.slice(hashIndex + 1),
+        cursor
+      )
+      return
+    }
+    for (const target of workspace.getProject(uri).db.iterTargets(true, {
+      type: { $in: LINK_TARGET_TYPES }
+    })) {
+      if (target.name.startsWith(start)) {
+        yield {
+          label: target.name,
+          kind: CompletionItemKind.Reference,
+          detail: `MyST ${target.type}`,
+          data: "myst.target",
+          textEdit: completetionTextEdit(target.name, start, cursor)
+        }
+      }
+    }
+    yield* completeFilePath(workspace, uri, start, cursor)
+    return
+  }
+
+  const matchDefLink = before.match(/\]\[([^[]*)$/)
+  if (matchDefLink) {
+    const start = matchDefLink[1]
+    for (const data of workspace.cache.iterDefs(uri, true)) {
+      yield {
+        label: data.raw,
+        kind: CompletionItemKind.Reference,
+        detail: "MyST definition",
+        documentation: data.href,
+        data: "myst.definition",
+        textEdit: completetionTextEdit(data.raw, start, cursor)
+      }
+    }
+    return
+  }
+
+  const matchContent = matchRoleContent(before)
+  if (matchContent) {
+    yield* completeRoleContent(
+      workspace,
+      uri,
+      matchContent.name,
+      matchContent.partial,
+      cursor
+    )
+    return
+  }
+
+  const matchSubstitution = before.match(/\{\{\s*([\w-]*)$/)
+  if (matchSubstitution) {
+    const start = matchSubstitution[1]
+    const project = workspace.getProject(uri)
+    for (const substitution of project
+      .getSubstitutions(workspace.cache, uri)
+      .values()) {
+      if (substitution.name.startsWith(start)) {
+        yield {
+          label: substitution.name,
+          kind: CompletionItemKind.Variable,
+          detail: "MyST substitution",
+          documentation: substitution.value,
+          textEdit: completetionTextEdit(substitution.name, start, cursor)
+        }
+      }
+    }
+    return
+  }
+
+  const matchRole = before.match(/\{([a-zA-Z0-9:_-]*)$/)
+  if (matchRole) {
+    const start = matchRole[1]
+    for (const name in roleDict) {
+      if (name.startsWith(start)) {
+        yield {
+          label: name,
+          kind: CompletionItemKind.Function,
+          detail: "MyST role",
+          data: "myst.role",
+          textEdit: completetionTextEdit(name, start, cursor)
+        }
+      }
+    }
+    return
+  }
+}
+
+/** Identify possible completions for a cursor in the options block of a directive */
+function* completeDirectiveOption(
+  workspace: IWorkspace,
+  doc: TextDocument,
+  token: Token,
+  cursor: Position
+): IterableIterator<CompletionItem> {
+  const match = token.info.trim().match(/^{([^}]+)}/)
+  const dict: { [key: string]: { options: { [key: string]: string } } } = dirDict
+  if (!token.map || !match || !Object.prototype.hasOwnProperty.call(dict, match[1])) {
+    return
+  }
+  const specOptions = dict[match[1]].options
+
+  // find the lines of the options block
+  let optMap: [number, number] | null = null
+  if (token.type === "div_open") {
+    optMap = token.meta?.optMap || null
+  } else {
+    const numLines = parseDirectiveOptions(token.content.split("\n")).numLines
+    optMap = numLines ? [token.map[0] + 1, token.map[0] + numLines] : null
+  }
+  if (!optMap || cursor.line < optMap[0] || cursor.line > optMap[1]) {
+    return
+  }
+  // options can be `:key: value` lines or a YAML block between `---` lines
+  const prefix = getLine(doc, optMap[0]).trim() === "---" ? "" : ":"
+  const before = getLine(doc, cursor.line).slice(0, cursor.character)
+
+  const matchKey = before.match(new RegExp(`^\\s*${prefix}([a-zA-Z0-9_-]*)$`))
+  if (matchKey) {
+    const existing = new Set<string>()
+    for (let line = optMap[0]; line <= optMap[1]; line++) {
+      const keyMatch = getLine(doc, line).match(/^\s*:?([a-zA-Z0-9_-]+):/)
+      if (line !== cursor.line && keyMatch) {
+        existing.add(keyMatch[1])
+      }
+    }
+    for (const [key, type] of Object.entries(specOptions)) {
+      if (existing.has(key) || !key.startsWith(matchKey[1])) {
+        continue
+      }
+      yield {
+        label: key,
+        kind: CompletionItemKind.Property,
+        detail: `MyST directive option (${type})`,
+        documentation: OPTION_TYPES[type]?.description,
+        data: "myst.directive.option",
+        textEdit: completetionTextEdit(
+          type === "flag" ? `${key}:` : `${key}: `,
+          matchKey[1],
+          cursor
+        )
+      }
+    }
+    return
+  }
+
+  const matchValue = before.match(
+    new RegExp(`^\\s*${prefix}([a-zA-Z0-9_-]+):\\s*(\\S*)$`)
+  )
+  if (matchValue && Object.prototype.hasOwnProperty.call(specOptions, matchValue[1])) {
+    const type = specOptions[matchValue[1]]
+    for (const choice of OPTION_TYPES[type]?.choices || []) {
+      if (choice.startsWith(matchValue[2])) {
+        yield {
+          label: choice,
+          kind: CompletionItemKind.Value,
+          detail: `MyST directive option value (${type})`,
+          data: "myst.directive.value",
+          textEdit: completetionTextEdit(choice, matchValue[2], cursor)
+        }
+      }
+    }
+  }
+}
+
+/** Identify possible completions for a file path, relative to the document,
+ * e.g. [text](../images/partial
+ */
+function* completeFilePath(
+  workspace: IWorkspace,
+  uri: string,
+  partial: string,
+  cursor: Position
+): IterableIterator<CompletionItem> {
+  const dirPart = partial.slice(0, partial.lastIndexOf("/") + 1)
+  const namePartial = partial.slice(dirPart.length)
+  const dirPath = workspace.getProject(uri).resolveFilePath(uri, dirPart || ".")
+  if (!dirPath || !fs.existsSync(dirPath) || !fs.statSync(dirPath).isDirectory()) {
+    return
+  }
+  const project = workspace.getProject(uri)
+  const rootPath = project.rootUri ? URI.parse(project.rootUri).fsPath : dirPath
+  const entries = glob.sync("*", {
+    cwd: dirPath,
+    onlyFiles: false,
+    markDirectories: true
+  })
+  for (const entry of entries) {
+    if (!entry.startsWith(namePartial)) {
+      continue
+    }
+    // the ignore patterns are relative to the project root
+    const relPath = path
+      .relative(rootPath, path.join(dirPath, entry))
+      .split(path.sep)
+      .join("/")
+    if (
+      !relPath.startsWith("../") &&
+      micromatch.isMatch(
+        relPath + (entry.endsWith("/") ? "/" : ""),
+        project.config.files.ignore
+      )
+    ) {
+      continue
+    }
+    const isDir = entry.endsWith("/")
+    yield {
+      label: entry,
+      kind: isDir ? CompletionItemKind.Folder : CompletionItemKind.File,
+      detail: isDir ? "Directory" : "File",
+      data: "myst.path",
+      textEdit: completetionTextEdit(entry, namePartial, cursor)
+    }
+  }
+}
+
+/** Identify possible completions for the path of a document in the table of contents,
+ * e.g. `- file: chapter`, which omits the extension in `_toc.yml`
+ */
+function* completeTocEntry(
+  workspace: IWorkspace,
+  doc: TextDocument,
+  cursor: Position
+): IterableIterator<CompletionItem> {
+  const project = workspace.getProject(doc.uri)
+  const before = getLine(doc, cursor.line).slice(0, cursor.character)
+  const match = before.match(/^\s*(-\s+)?(root|file)\s*:\s*["']?([^"'#\s]*)$/)
+  if (!match || !project.rootUri?.startsWith("file://")) {
+    return
+  }
+  const rootPath = url.fileURLToPath(project.rootUri)
+  const withExtension = path.basename(URI.parse(doc.uri).fsPath) === CONFIG_FILE
+  for (const document of project.db.iterDocuments()) {
+    let relPath = path
+      .relative(rootPath, URI.parse(document.uri).fsPath)
+      .split(path.sep)
+      .join("/")
+    if (!withExtension) {
+      relPath = relPath.slice(0, relPath.length - path.extname(relPath).length)
+    }
+    if (relPath.startsWith(match[3])) {
+      yield {
+        label: relPath,
+        kind: CompletionItemKind.File,
+        detail: project.getDocumentTitle(document.uri) || "MyST document",
+        textEdit: completetionTextEdit(relPath, match[3], cursor)
+      }
+    }
+  }
+}
+
+/** Identify possible completions for a heading anchor in a link,
+ * e.g. [text](#partial or [text](other.md#partial
+ */
+function* completeHeadingAnchor(
+  workspace: IWorkspace,
+  uri: string,
+  linkPath: string,
+  partial: string,
+  cursor: Position
+): IterableIterator<CompletionItem> {
+  const filePath = linkPath
+    ? workspace.getProject(uri).resolveFilePath(uri, linkPath)
+    : URI.parse(uri).fsPath
+  for (const target of workspace.getProject(uri).db.iterTargets(false, {
+    type: "heading"
+  })) {
+    if (target.name.startsWith(partial) && URI.parse(target.uri).fsPath === filePath) {
+      yield {
+        label: target.name,
+        kind: CompletionItemKind.Reference,
+        detail: "MyST heading",
+        data: "myst.target",
+        textEdit: completetionTextEdit(target.name, partial, cursor)
+      }
+    }
+  }
+}
+
+/** Identify possible completions for the content of a role, e.g. {ref}`partial */
+function* completeRoleContent(
+  workspace: IWorkspace,
+  uri: string,
+  role: string,
+  partial: string,
+  cursor: Position
+): IterableIterator<CompletionItem> {
+  if (role === "download") {
+    yield* completeFilePath(workspace, uri, partial, cursor)
+    return
+  }
+  if (isCiteRole(role)) {
+    // complete the last of a comma separated list of keys
+    const start = (partial.split(",").pop() as string).trimStart()
+    for (const citation of workspace.getProject(uri).citations.values()) {
+      if (citation.key.startsWith(start)) {
+        yield {
+          label: citation.key,
+          kind: CompletionItemKind.Reference,
+          detail: `BibTeX ${citation.type}`,
+          documentation: {
+            kind: MarkupKind.Markdown,
+            value: formatBibEntry(citation)
+          },
+          textEdit: completetionTextEdit(citation.key, start, cursor)
+        }
+      }
+    }
+    return
+  }
+  if (role === "doc") {
+    const docUri = URI.parse(uri)
+    const project = workspace.getProject(uri)
+    for (const document of project.db.iterDocuments()) {
+      const docPath = URI.parse(document.uri).fsPath
+      // document paths use forward slashes on all platforms
+      let relPath = path
+        .relative(path.dirname(docUri.fsPath), docPath)
+        .split(path.sep)
+        .join("/")
+      relPath = relPath.slice(0, relPath.length - path.extname(relPath).length)
+      if (docPath === docUri.fsPath || !relPath.startsWith(partial)) {
+        continue
+      }
+      // order the documents as in the table of contents, followed by any others
+      const tocIndex = project.getTocIndex(docPath)
+      yield {
+        label: relPath,
+        kind: CompletionItemKind.File,
+        detail: project.getDocumentTitle(document.uri) || "MyST document",
+        sortText: `${
+          tocIndex < 0 ? "1" : `0${String(tocIndex).padStart(6, "0")}`
+        }${relPath}`,
+        data: "myst.document",
+        textEdit: completetionTextEdit(relPath, partial, cursor)
+      }
+    }
+    return
+  }
+  if (!ROLE_TARGET_TYPES[role]) {
+    return
+  }
+  // glossary terms are case-insensitive
+  const start = role === "term" ? partial.toLowerCase() : partial
+  for (const target of workspace.getProject(uri).db.iterTargets(true, {
+    type: { $in: ROLE_TARGET_TYPES[role] }
+  })) {
+    if (target.name.startsWith(start)) {
+      // insert the target as written, e.g. a term with its glossary casing
+      const text = target.text || target.name
+      yield {
+        label: text,
+        kind: CompletionItemKind.Reference,
+        detail: `MyST ${target.type}`,
+        documentation: target.content,
+        data: "myst.target",
+        textEdit: completetionTextEdit(text, partial, cursor)
+      }
+    }
+  }
+}
+
+/** Add the documentation of a directive or role to its completion item */
+export function resolveCompletion(item: CompletionItem): CompletionItem {
+  if (item.data === "myst.directive") {
+    const dict: { [key: string]: { name: string } } = dirDict
+    const data = dict[item.label]
+    item.documentation = makeDescription(data)
+  } else if (item.data === "myst.role") {
+    const dict: { [key: string]: { name: string } } = roleDict
+    item.documentation = makeRoleDescription(item.label, dict[item.label])
+  }
+  return item
+}
+
+function completetionTextEdit(
+  text: string,
+  partial: string,
+  cursor: Position
+): TextEdit {
+  return {
+    newText: text,
+    range: {
+      start: {
+        line: cursor.line,
+        character: cursor.character - partial.length
+      },
+      end: cursor
+    }
+  }
+}
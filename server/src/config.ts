@@ -0,0 +1,87 @@
+import fs from "fs"
+import yaml from "js-yaml"
+import { validate } from "jsonschema"
+import path from "path"
+
+import * as configSchema from "./config.schema.json"
+
+/** The name of the configuration file, in the root of a project */
+export const CONFIG_FILE = "myst.yml"
+
+export interface ServerConfig {
+  files: {
+    text: string[]
+    jupyter: string[]
+    ignore: string[]
+    /** BibTeX files of citations for `{cite}` roles, relative to the project root */
+    bibliography: string[]
+  }
+  parsing: {
+    /** Markdown-it extensions */
+    extensions: string[]
+    /** The maximum heading level to create anchors for (0 to disable) */
+    heading_anchors: number
+    /** Substitutions for all documents, used as `{{ name }}` */
+    substitutions: { [name: string]: unknown }
+    /** Additional directive names, e.g. from Sphinx extensions, which are not validated */
+    directives: string[]
+  }
+  formatting: {
+    /** Make directive code fences the shortest length that encloses their content */
+    directive_fences: boolean
+    /** Make colon fences one marker longer than the colon fences they contain */
+    colon_fences: boolean
+    /** The style of directive option blocks */
+    directive_options: "keep" | "colon" | "yaml"
+    /** Surround targets and block breaks by a single blank line */
+    blank_lines: boolean
+    /** Align the columns of tables */
+    tables: boolean
+  }
+  lsp: {
+    /** The tokens to apply folding to */
+    foldingTokens: string[]
+  }
+}
+
+/** Create a copy of the default configuration */
+export function defaultConfig(): ServerConfig {
+  return JSON.parse(JSON.stringify(configSchema.default.default))
+}
+
+/** Merge a user configuration, e.g. from `myst.yml`, into the default configuration
+ *
+ * @throws Error if the configuration is invalid
+ */
+export function mergeConfig(newConfig: any): ServerConfig {
+  const defaults = defaultConfig()
+  const result = validate(newConfig, configSchema)
+  if (!result.valid) {
+    throw new Error(`Invalid configuration: ${result.errors}`)
+  }
+  for (const [sectionKey, section] of Object.entries(newConfig || {})) {
+    if (sectionKey in defaults) {
+      // eslint-disable-next-line @typescript-eslint/ban-ts-comment
+      // @ts-ignore
+      const defaultSection = defaults[sectionKey]
+      for (const [key, value] of Object.entries(section as object)) {
+        if (key in defaultSection) {
+          defaultSection[key] = value
+        }
+      }
+    }
+  }
+  return defaults
+}
+
+/** Read the user configuration of a project, which is optional
+ *
+ * @throws Error if the file cannot be read or parsed
+ */
+export function readConfigFile(rootPath: string): any {
+  const configPath = path.join(rootPath, CONFIG_FILE)
+  if (!fs.existsSync(configPath)) {
+    return {}
+  }
+  return yaml.load(fs.readFileSync(configPath, "utf8"))
+}
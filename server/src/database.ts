@@ -0,0 +1,253 @@
+import loki from "lokijs"
+import Token from "markdown-it/lib/token"
+import { Diagnostic } from "vscode-languageserver"
+import { URI } from "vscode-uri"
+
+import {
+  IDefinition,
+  IDocumentData,
+  IFileIndex,
+  IFootnoteDefinition,
+  IHeadingData,
+  IReferenceData,
+  ISubstitutionData,
+  ITargetData
+} from "./parser"
+
+export interface ICacheData {
+  tokens: Token[]
+  lineToTokenIndex: number[][]
+  defs: IDefinition[]
+  footnotes: IFootnoteDefinition[]
+  refs: IReferenceData[]
+  /** substitutions defined in the front matter */
+  substitutions: ISubstitutionData[]
+  /** diagnostics from parsing the document */
+  diagnostics: Diagnostic[]
+}
+
+// A cache of data for open documents
+export class DocCache {
+  private data: Map<string, ICacheData>
+  // map of parentUri to set of childUris
+  // used for cells of a notebook
+  private parentToChildUri: Map<string, Set<string>>
+
+  constructor() {
+    this.data = new Map()
+    this.parentToChildUri = new Map()
+  }
+
+  removeUri(uri: string) {
+    this.data.delete(uri)
+    // remove children in parentToChildUri
+    for (const [parent, children] of this.parentToChildUri) {
+      if (children.has(uri)) {
+        children.delete(uri)
+        if (children.size === 0) {
+          this.parentToChildUri.delete(parent)
+        }
+      }
+    }
+    // remove all children of parent
+    this.parentToChildUri.get(uri)?.forEach(child => {
+      this.data.delete(child)
+    })
+    this.parentToChildUri.delete(uri)
+  }
+
+  clear() {
+    this.data.clear()
+  }
+
+  setParentToChildUri(parentUri: string, childUri: string) {
+    if (!this.parentToChildUri.has(parentUri)) {
+      this.parentToChildUri.set(parentUri, new Set())
+    }
+    this.parentToChildUri.get(parentUri)?.add(childUri)
+  }
+
+  setData(uri: string, data: ICacheData) {
+    this.data.set(uri, data)
+  }
+
+  getData(uri: string): ICacheData | undefined {
+    return this.data.get(uri)
+  }
+
+  getUris(): string[] {
+    return [...this.data.keys()]
+  }
+
+  /** Get the uri, plus the uris of any other cells in the same notebook */
+  getRelatedUris(uri: string): string[] {
+    for (const children of this.parentToChildUri.values()) {
+      if (children.has(uri)) {
+        return [...children]
+      }
+    }
+    return [uri]
+  }
+
+  *iterDefs(uri: string, distinct = true): IterableIterator<IDefinition> {
+    const defs: IDefinition[] = []
+    const data = this.data.get(uri)
+    if (data) {
+      defs.push(...data.defs)
+    }
+    // check if uri is child of parent
+    // if so add all defs from parent
+    for (const [parent, children] of this.parentToChildUri) {
+      if (children.has(uri)) {
+        for (const child of children || []) {
+          if (child !== uri) {
+            const data = this.data.get(child)
+            if (data) {
+              defs.push(...data.defs)
+            }
+          }
+        }
+      }
+    }
+    const yielded = new Set<string>()
+    for (const def of defs) {
+      if (distinct && yielded.has(def.key)) {
+        continue
+      } else if (distinct) {
+        yielded.add(def.key)
+      }
+      yield def
+    }
+  }
+
+  /** Iterate the substitutions defined in a document,
+   * or in any cell of the same notebook (e.g. in front matter of the first cell)
+   */
+  *iterSubstitutions(uri: string): IterableIterator<ISubstitutionData> {
+    for (const relatedUri of this.getRelatedUris(uri)) {
+      yield* this.data.get(relatedUri)?.substitutions || []
+    }
+  }
+
+  /** Iterate the footnote definitions of a document, or of any cell of the same notebook */
+  *iterFootnotes(uri: string): IterableIterator<IFootnoteDefinition> {
+    for (const relatedUri of this.getRelatedUris(uri)) {
+      yield* this.data.get(relatedUri)?.footnotes || []
+    }
+  }
+}
+
+// A database for storing document data for the whole project
+export class projectDatabase {
+  private db: loki
+  private targets: loki.Collection<ITargetData>
+  private references: loki.Collection<IReferenceData>
+  private documents: loki.Collection<IDocumentData>
+  private headings: loki.Collection<IHeadingData>
+  // the titles of the documents by file path, built when first needed after headings change
+  private titles: Map<string, IHeadingData> | null = null
+  constructor() {
+    this.db = new loki("data.db")
+    this.targets = this.db.addCollection("targets")
+    this.references = this.db.addCollection("references")
+    this.documents = this.db.addCollection("documents")
+    this.headings = this.db.addCollection("headings")
+  }
+  clear() {
+    this.targets.clear()
+    this.references.clear()
+    this.documents.clear()
+    this.headings.clear()
+    this.titles = null
+  }
+  removeUri(uri: string) {
+    this.targets.findAndRemove({ uri })
+    this.references.findAndRemove({ uri })
+    this.documents.findAndRemove({ uri })
+    this.headings.findAndRemove({ uri })
+    this.titles = null
+  }
+  /** Remove all data for a file, including that of any notebook cells */
+  removePath(filePath: string) {
+    const inFile = (item: { uri: string }) => URI.parse(item.uri).fsPath === filePath
+    this.targets.removeWhere(inFile)
+    this.references.removeWhere(inFile)
+    this.documents.removeWhere(inFile)
+    this.headings.removeWhere(inFile)
+    this.titles = null
+  }
+  insertHeadings(headings: IHeadingData[]) {
+    this.headings.insert(headings)
+    this.titles = null
+  }
+  *iterHeadings(): IterableIterator<IHeadingData> {
+    yield* this.headings.find()
+  }
+  /** Get the title of a file, i.e. its first heading of the highest level,
+   * including those of notebook cells
+   */
+  getTitle(filePath: string): string | null {
+    if (!this.titles) {
+      this.titles = new Map()
+      for (const heading of this.headings.find()) {
+        const headingPath = URI.parse(heading.uri).fsPath
+        const title = this.titles.get(headingPath)
+        if (!title || heading.level < title.level) {
+          this.titles.set(headingPath, heading)
+        }
+      }
+    }
+    return this.titles.get(filePath)?.name || null
+  }
+  insertDocument(document: IDocumentData) {
+    this.documents.insert(document)
+  }
+  insertFile(index: IFileIndex) {
+    this.documents.insert(index.documents)
+    this.targets.insert(index.targets)
+    this.references.insert(index.references)
+    this.headings.insert(index.headings)
+    this.titles = null
+  }
+  hasDocument(uri: string): boolean {
+    return this.documents.findOne({ uri }) !== null
+  }
+  *iterDocuments(): IterableIterator<IDocumentData> {
+    yield* this.documents.find()
+  }
+  insertTargets(targets: ITargetData[]) {
+    this.targets.insert(targets)
+  }
+  insertReferences(references: IReferenceData[]) {
+    this.references.insert(references)
+  }
+  getTargets(name: string, types?: string[]): ITargetData[] {
+    if (types) {
+      return this.targets.find({ name, type: { $in: types } })
+    }
+    return this.targets.find({ name })
+  }
+  getUriTargets(uri: string): ITargetData[] {
+    return this.targets.find({ uri })
+  }
+  getReferences(name: string, types: string[]): IReferenceData[] {
+    return this.references.find({ name, type: { $in: types } })
+  }
+
+  *iterAllTargets(): IterableIterator<ITargetData> {
+    yield* this.targets.find()
+  }
+
+  *iterTargets(distinct = true, filter = {}): IterableIterator<ITargetData> {
+    const yielded = new Set<string>()
+    for (const target of this.targets.find(filter)) {
+      if (distinct) {
+        if (yielded.has(target.name)) {
+          continue
+        }
+        yielded.add(target.name)
+      }
+      yield target
+    }
+  }
+}
@@ -8,6 +8,48 @@ import { TextDocument } from "vscode-languageserver-textdocument"
 
 import { matchPositionText } from "./utils"
 
+/** Descriptions, and any fixed choices, for the option types in directives.json
+ *
+ * Adapted from: docutils/parsers/rst/directives/__init__.py
+ */
+export const OPTION_TYPES: {
+  [key: string]: { description: string; choices?: string[] }
+} = {
+  flag: { description: "Flag (no value)" },
+  unchanged: { description: "Text (may be empty)" },
+  unchanged_required: { description: "Text" },
+  class_option: { description: "Space-separated list of class names" },
+  path: { description: "File path" },
+  uri: { description: "URI" },
+  int: { description: "Integer" },
+  positive_int: { description: "Positive integer" },
+  nonnegative_int: { description: "Non-negative integer" },
+  optional_int: { description: "Integer (may be empty)" },
+  int_or_nothing: { description: "Integer (may be empty)" },
+  percentage: { description: "Percentage, e.g. `50` or `50%`" },
+  length_or_unitless: { description: "Length, e.g. `100px` or `2em`" },
+  length_or_percentage_or_unitless: {
+    description: "Length or percentage, e.g. `100px` or `50%`"
+  },
+  figwidth_value: {
+    description: "Length or percentage, or `image`",
+    choices: ["image"]
+  },
+  align: {
+    description: "Alignment",
+    choices: ["left", "center", "right", "top", "middle", "bottom"]
+  },
+  backlinks: { description: "Backlinks", choices: ["entry", "top", "none"] },
+  auto_or_other: { description: "`auto` or a value", choices: ["auto"] },
+  encoding: { description: "Text encoding, e.g. `utf-8`" },
+  parser_name: { description: "Parser name", choices: ["rst", "markdown"] },
+  single_char_or_unicode: { description: "Single character or unicode code" },
+  single_char_or_whitespace_or_unicode: {
+    description: "Single character, whitespace or unicode code"
+  },
+  "<lambda>": { description: "Value" }
+}
+
 /** Make a markdown description for a directive */
 export function makeDescription(data: any): MarkupContent {
   const opts = yaml.dump({
@@ -47,3 +89,154 @@ export function matchDirectiveName(
   }
   return null
 }
+
+/** Parse the options at the start of a directive body,
+ * either as `:key: value` lines, or as a YAML block between `---` lines
+ *
+ * @param lines The lines of the directive body
+ * @returns the options, the number of lines they span, and any parsing error
+ */
+export function parseDirectiveOptions(lines: string[]): {
+  options: { [key: string]: any } | null
+  numLines: number
+  error: string | null
+} {
+  const optText: string[] = []
+  let numLines = 0
+  if (lines.length && lines[0].trim() === "---") {
+    // find the closing ---
+    for (let i = 1; i < lines.length; i++) {
+      if (lines[i].trim() === "---") {
+        numLines = i + 1
+        break
+      }
+      optText.push(lines[i])
+    }
+    if (!numLines) {
+      return { options: null, numLines: 0, error: "Unclosed YAML options block" }
+    }
+  } else {
+    // loop through lines until one does not start with :
+    for (const line of lines) {
+      if (!line.startsWith(":")) {
+        break
+      }
+      optText.push(line.slice(1))
+      numLines++
+    }
+  }
+  if (!numLines) {
+    return { options: null, numLines: 0, error: null }
+  }
+  try {
+    const options = yaml.load(optText.join("\n"))
+    if (options === null || options === undefined) {
+      return { options: {}, numLines, error: null }
+    }
+    if (typeof options !== "object" || Array.isArray(options)) {
+      throw new Error("Options must be a dictionary")
+    }
+    return { options: options as { [key: string]: any }, numLines, error: null }
+  } catch (err) {
+    return { options: null, numLines, error: `${err}` }
+  }
+}
+
+/** Validate a directive against its specification in directives.json
+ *
+ * Note, the specification does not record if the final argument may contain whitespace,
+ * so too many arguments are only reported for directives that take none.
+ *
+ * @returns a list of problems, with the option key they relate to (if any)
+ */
+export function validateDirective(
+  spec: {
+    required_arguments: number
+    optional_arguments: number
+    has_content: boolean
+    options: { [key: string]: string }
+  },
+  args: string,
+  options: { [key: string]: any } | null,
+  hasContent: boolean
+): { message: string; option?: string }[] {
+  const problems: { message: string; option?: string }[] = []
+  const numArgs = args.trim() ? args.trim().split(/\s+/).length : 0
+  if (numArgs < spec.required_arguments) {
+    problems.push({
+      message: `Directive requires ${spec.required_arguments} argument(s), got ${numArgs}`
+    })
+  } else if (numArgs > 0 && spec.required_arguments + spec.optional_arguments === 0) {
+    problems.push({ message: "Directive does not take arguments" })
+  }
+  for (const key of Object.keys(options || {})) {
+    if (!(key in spec.options)) {
+      problems.push({ message: `Unknown directive option: ${key}`, option: key })
+    }
+  }
+  if (hasContent && !spec.has_content) {
+    problems.push({ message: "Directive does not take content" })
+  }
+  return problems
+}
+
+/** Parse the content of a glossary directive, into its entries:
+ * one or more term lines, followed by an indented definition
+ *
+ * Adapted from: sphinx/domains/std.py (Glossary.run)
+ *
+ * @returns the terms of each entry, with their line index and column,
+ *   and the text of the definition
+ */
+export function parseGlossary(
+  lines: string[]
+): { terms: { text: string; line: number; column: number }[]; definition: string }[] {
+  const entries: {
+    terms: { text: string; line: number; column: number }[]
+    definition: string[]
+  }[] = []
+  let baseIndent = -1
+  let wasEmpty = true
+  for (let i = 0; i < lines.length; i++) {
+    const indent = lines[i].search(/\S/)
+    if (indent < 0) {
+      // keep paragraph breaks within definitions
+      entries[entries.length - 1]?.definition.push("")
+      wasEmpty = true
+      continue
+    }
+    if (baseIndent < 0) {
+      baseIndent = indent
+    }
+    const text = lines[i].trim()
+    if (indent <= baseIndent && text.startsWith("..")) {
+      // an RST comment
+      wasEmpty = false
+      continue
+    }
+    if (indent <= baseIndent) {
+      // a term, with an optional classifier, e.g. `term : classifier`
+      const term = text.split(/\s+:\s+/)[0]
+      const entry = entries[entries.length - 1]
+      if (wasEmpty || !entry || entry.definition.some(line => line)) {
+        entries.push({ terms: [], definition: [] })
+      }
+      entries[entries.length - 1].terms.push({ text: term, line: i, column: indent })
+    } else if (entries.length) {
+      entries[entries.length - 1].definition.push(lines[i])
+    }
+    wasEmpty = false
+  }
+  return entries.map(entry => {
+    const indent = Math.min(
+      ...entry.definition.filter(line => line).map(line => line.search(/\S/))
+    )
+    return {
+      terms: entry.terms,
+      definition: entry.definition
+        .map(line => line.slice(indent))
+        .join("\n")
+        .trim()
+    }
+  })
+}
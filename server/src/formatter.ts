@@ -0,0 +1,425 @@
+import Token from "markdown-it/lib/token"
+import { Range, TextEdit } from "vscode-languageserver"
+import { TextDocument } from "vscode-languageserver-textdocument"
+
+import { ServerConfig } from "./config"
+import { parseDirectiveOptions } from "./directiveUtils"
+import { createParser } from "./parser"
+
+/** A replacement of the lines from `start` up to (but not including) `end` */
+interface ILineReplacement {
+  start: number
+  end: number
+  lines: string[]
+}
+
+/** The replacements for a single formatting change, which must be applied together */
+type Change = ILineReplacement[]
+
+/** Format the MyST constructs of a document, according to the configuration
+ *
+ * Every change is checked to leave the parsed content of the document unchanged,
+ * and is dropped otherwise.
+ *
+ * @param range only apply changes that overlap these lines
+ */
+export function formatDocument(
+  doc: TextDocument,
+  config: ServerConfig,
+  range?: Range
+): TextEdit[] {
+  const text = doc.getText()
+  const eol = text.includes("\r\n") ? "\r\n" : "\n"
+  const lines = text.split(/\r?\n/)
+  const md = createParser(config)
+  const tokens = md.parse(text, {})
+
+  let changes: Change[] = []
+  if (config.formatting.directive_fences) {
+    changes.push(...formatDirectiveFences(tokens, lines))
+  }
+  if (config.formatting.colon_fences) {
+    changes.push(...formatColonFences(tokens, lines))
+  }
+  if (config.formatting.directive_options !== "keep") {
+    changes.push(
+      ...formatDirectiveOptions(tokens, lines, config.formatting.directive_options)
+    )
+  }
+  if (config.formatting.blank_lines) {
+    changes.push(...formatBlankLines(tokens, lines))
+  }
+  if (config.formatting.tables) {
+    changes.push(...formatTables(tokens, lines))
+  }
+
+  if (range) {
+    changes = changes.filter(change =>
+      change.some(
+        ({ start, end }) =>
+          start <= range.end.line && Math.max(end, start + 1) > range.start.line
+      )
+    )
+  }
+  changes = removeConflicts(changes)
+  if (!changes.length) {
+    return []
+  }
+
+  // check that the content is unchanged, first for all changes, then for each separately
+  const signature = contentSignature(tokens)
+  const isValid = (candidates: Change[]) =>
+    contentSignature(md.parse(applyChanges(lines, candidates).join("\n"), {})) ===
+    signature
+  if (!isValid(changes)) {
+    changes = changes.filter(change => isValid([change]))
+    if (!isValid(changes)) {
+      return []
+    }
+  }
+
+  return changes.flat().map(({ start, end, lines: newLines }) => {
+    if (end >= lines.length) {
+      // the last line has no line ending, which should not be added
+      return TextEdit.replace(
+        {
+          start: { line: start, character: 0 },
+          end: { line: lines.length - 1, character: lines[lines.length - 1].length }
+        },
+        newLines.join(eol)
+      )
+    }
+    return TextEdit.replace(
+      { start: { line: start, character: 0 }, end: { line: end, character: 0 } },
+      newLines.map(line => line + eol).join("")
+    )
+  })
+}
+
+/** Create a string representing the content of a document,
+ * ignoring the markup and position of its tokens
+ */
+function contentSignature(tokens: Token[]): string {
+  return JSON.stringify(
+    tokens.map(token => {
+      let content = token.content
+      if (token.type === "fence" && token.info.match(/^{[^}]+}/)) {
+        // the style of directive options is not part of the content
+        const lines = token.content.split("\n")
+        const opts = parseDirectiveOptions(lines)
+        content = JSON.stringify([
+          opts.options,
+          opts.error,
+          lines.slice(opts.numLines).join("\n")
+        ])
+      }
+      const meta =
+        token.meta && typeof token.meta === "object"
+          ? { ...token.meta, optMap: undefined }
+          : token.meta
+      return [
+        token.type,
+        token.tag,
+        token.nesting,
+        token.level,
+        token.hidden,
+        token.info.trim(),
+        token.attrs,
+        content,
+        meta
+      ]
+    })
+  )
+}
+
+/** Drop changes that overlap an earlier change, or insert at the same line */
+function removeConflicts(changes: Change[]): Change[] {
+  const result: Change[] = []
+  const used: [number, number][] = []
+  for (const change of changes) {
+    // an insertion is treated as occupying the line it is inserted before
+    const spans = change.map(({ start, end }): [number, number] => [
+      start,
+      Math.max(end, start + 1)
+    ])
+    if (spans.some(([start, end]) => used.some(([s, e]) => start < e && s < end))) {
+      continue
+    }
+    used.push(...spans)
+    result.push(change)
+  }
+  return result.sort((a, b) => a[0].start - b[0].start)
+}
+
+/** Apply non-overlapping changes to the lines of a document */
+function applyChanges(lines: string[], changes: Change[]): string[] {
+  const replacements = changes.flat().sort((a, b) => a.start - b.start)
+  const result: string[] = []
+  let line = 0
+  for (const { start, end, lines: newLines } of replacements) {
+    result.push(...lines.slice(line, start), ...newLines)
+    line = end
+  }
+  result.push(...lines.slice(line))
+  return result
+}
+
+/** Make directive code fences the shortest length that encloses any fences in their content,
+ * i.e. at least 3, and longer than any inner fence of the same character
+ */
+function formatDirectiveFences(tokens: Token[], lines: string[]): Change[] {
+  const changes: Change[] = []
+  for (const token of tokens) {
+    if (token.type !== "fence" || !token.map || !token.info.match(/^{[^}]+}/)) {
+      continue
+    }
+    const [start, end] = token.map
+    const open = lines[start].match(/^(\s*)(`{3,}|~{3,})(.*)$/)
+    const close = lines[end - 1].match(/^(\s*)(`{3,}|~{3,})\s*$/)
+    if (!open || !close || end - 1 <= start || close[2][0] !== open[2][0]) {
+      // an unclosed fence, or a fence within another block, such as a blockquote
+      continue
+    }
+    const char = open[2][0]
+    let length = 3
+    for (const line of lines.slice(start + 1, end - 1)) {
+      const inner = line.match(/^\s*(`{3,}|~{3,})/)
+      if (inner && inner[1][0] === char) {
+        length = Math.max(length, inner[1].length + 1)
+      }
+    }
+    if (open[2].length !== length || close[2].length !== length) {
+      const marker = char.repeat(length)
+      changes.push([
+        { start, end: start + 1, lines: [`${open[1]}${marker}${open[3]}`] },
+        { start: end - 1, end, lines: [`${close[1]}${marker}`] }
+      ])
+    }
+  }
+  return changes
+}
+
+/** Make colon fences one marker longer than the colon fences they contain,
+ * i.e. 3 markers for a fence without nested fences
+ */
+function formatColonFences(tokens: Token[], lines: string[]): Change[] {
+  const changes: Change[] = []
+  const closeLines = new Set<number>()
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i]
+    if (token.type !== "div_open" || !token.map) {
+      continue
+    }
+    const [start, closeLine] = token.map
+    const open = lines[start].match(/^(\s*)(:{3,})(.*)$/)
+    const close =
+      closeLine < lines.length && lines[closeLine].match(/^(\s*)(:{3,})\s*$/)
+    if (
+      !open ||
+      !close ||
+      close[2].length < open[2].length ||
+      closeLines.has(closeLine)
+    ) {
+      // an unclosed fence, which may have been closed by the end of its parent
+      continue
+    }
+    closeLines.add(closeLine)
+    // find the maximum depth of nested colon fences
+    let depth = 0
+    let maxDepth = 0
+    for (let j = i + 1; j < tokens.length; j++) {
+      if (tokens[j].type === "div_open") {
+        depth++
+        maxDepth = Math.max(maxDepth, depth)
+      } else if (tokens[j].type === "div_close") {
+        if (depth === 0) {
+          break
+        }
+        depth--
+      }
+    }
+    const length = 3 + maxDepth
+    if (open[2].length !== length || close[2].length !== length) {
+      const marker = ":".repeat(length)
+      changes.push([
+        { start, end: start + 1, lines: [`${open[1]}${marker}${open[3]}`] },
+        { start: closeLine, end: closeLine + 1, lines: [`${close[1]}${marker}`] }
+      ])
+    }
+  }
+  return changes
+}
+
+/** Convert the option blocks of directive code fences to `:key: value` lines or a YAML block
+ *
+ * Note, colon fences only support `:key: value` lines, so are not converted.
+ */
+function formatDirectiveOptions(
+  tokens: Token[],
+  lines: string[],
+  style: "colon" | "yaml"
+): Change[] {
+  const changes: Change[] = []
+  for (const token of tokens) {
+    if (token.type !== "fence" || !token.map || !token.info.match(/^{[^}]+}/)) {
+      continue
+    }
+    const [start, end] = token.map
+    if (!lines[start].match(/^(`{3,}|~{3,})/)) {
+      // only unindented fences are converted, to keep the option lines simple
+      continue
+    }
+    const content = lines.slice(start + 1, end - 1)
+    if (content.length && content[0].trim() === "---") {
+      const closeIndex = content.findIndex(
+        (line, index) => index && line.trim() === "---"
+      )
+      const yamlLines = content.slice(1, closeIndex)
+      if (
+        style !== "colon" ||
+        closeIndex < 0 ||
+        !yamlLines.length ||
+        yamlLines.some(line => !line.trim() || line.startsWith(":"))
+      ) {
+        continue
+      }
+      changes.push([
+        {
+          start: start + 1,
+          end: start + 2 + closeIndex,
+          lines: yamlLines.map(line => `:${line}`)
+        }
+      ])
+    } else if (style === "yaml") {
+      const numLines = content.findIndex(line => !line.startsWith(":"))
+      const colonLines = content.slice(0, numLines < 0 ? content.length : numLines)
+      if (!colonLines.length) {
+        continue
+      }
+      changes.push([
+        {
+          start: start + 1,
+          end: start + 1 + colonLines.length,
+          lines: ["---", ...colonLines.map(line => line.slice(1)), "---"]
+        }
+      ])
+    }
+  }
+  return changes
+}
+
+/** Surround top-level targets and block breaks by a single blank line,
+ * except at the start or end of the document
+ */
+function formatBlankLines(tokens: Token[], lines: string[]): Change[] {
+  const changes: Change[] = []
+  for (const token of tokens) {
+    if (
+      (token.type !== "myst_target" && token.type !== "myst_block_break") ||
+      token.level !== 0 ||
+      !token.map
+    ) {
+      continue
+    }
+    const [start, end] = token.map
+    let before = start
+    while (before > 0 && !lines[before - 1].trim()) {
+      before--
+    }
+    if (before > 0 && start - before !== 1) {
+      changes.push([{ start: before, end: start, lines: [""] }])
+    }
+    let after = end
+    while (after < lines.length && !lines[after].trim()) {
+      after++
+    }
+    if (after < lines.length && after - end !== 1) {
+      changes.push([{ start: end, end: after, lines: [""] }])
+    }
+  }
+  return changes
+}
+
+/** Split a table row into its (trimmed) cells, on unescaped pipes */
+function splitTableRow(line: string): string[] {
+  let row = line.trim()
+  if (row.startsWith("|")) {
+    row = row.slice(1)
+  }
+  if (row.endsWith("|") && !row.endsWith("\\|")) {
+    row = row.slice(0, -1)
+  }
+  return row.split(/(?<!\\)\|/).map(cell => cell.trim())
+}
+
+/** Align the columns of tables, which are not within a blockquote, list or footnote */
+function formatTables(tokens: Token[], lines: string[]): Change[] {
+  const changes: Change[] = []
+  const parents: string[] = []
+  for (const token of tokens) {
+    if (token.nesting === -1) {
+      parents.pop()
+    }
+    if (
+      token.type === "table_open" &&
+      token.map &&
+      !parents.some(type =>
+        ["blockquote_open", "list_item_open", "footnote_reference_open"].includes(type)
+      )
+    ) {
+      const [start, end] = token.map
+      const indent = (lines[start].match(/^\s*/) as RegExpMatchArray)[0]
+      const rows = lines.slice(start, end).map(splitTableRow)
+      const numColumns = rows[0].length
+      if (rows[1].length !== numColumns || rows.some(row => row.length > numColumns)) {
+        // extra cells are not part of the table content, so would be lost
+        continue
+      }
+      const aligns = rows[1].map(cell =>
+        cell.startsWith(":") && cell.endsWith(":")
+          ? "center"
+          : cell.endsWith(":")
+          ? "right"
+          : cell.startsWith(":")
+          ? "left"
+          : ""
+      )
+      const widths = aligns.map((_, column) =>
+        Math.max(
+          3,
+          ...rows.map((row, index) => (index === 1 ? 0 : (row[column] || "").length))
+        )
+      )
+      const newLines = rows.map((row, index) => {
+        const cells = widths.map((width, column) => {
+          if (index === 1) {
+            const dashes = "-".repeat(width)
+            return aligns[column] === "center"
+              ? `:${dashes.slice(2)}:`
+              : aligns[column] === "right"
+              ? `${dashes.slice(1)}:`
+              : aligns[column] === "left"
+              ? `:${dashes.slice(1)}`
+              : dashes
+          }
+          const cell = row[column] || ""
+          if (aligns[column] === "right") {
+            return cell.padStart(width)
+          }
+          if (aligns[column] === "center") {
+            return cell.padStart(Math.floor((width + cell.length) / 2)).padEnd(width)
+          }
+          return cell.padEnd(width)
+        })
+        return `${indent}| ${cells.join(" | ")} |`
+      })
+      if (newLines.some((line, index) => line !== lines[start + index])) {
+        changes.push([{ start, end, lines: newLines }])
+      }
+    }
+    if (token.nesting === 1) {
+      parents.push(token.type)
+    }
+  }
+  return changes
+}
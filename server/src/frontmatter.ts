@@ -0,0 +1,319 @@
+import * as yaml from "js-yaml"
+import { validate } from "jsonschema"
+import Token from "markdown-it/lib/token"
+import {
+  CompletionItem,
+  CompletionItemKind,
+  Diagnostic,
+  DiagnosticSeverity,
+  MarkupContent,
+  MarkupKind,
+  Position
+} from "vscode-languageserver"
+
+import * as frontmatterSchema from "./frontmatter.schema.json"
+import { ISubstitutionData } from "./parser"
+
+/** A key of a YAML mapping, possibly as the first key of a list item, e.g. `- name:` */
+const KEY_PATTERN = /^(\s*)(-\s+)?([\w-]+)\s*:/
+
+/** Marks a list item in a path of YAML keys */
+const ITEM = "[]"
+
+/** Parse the front matter content, keeping dates as strings */
+function loadFrontMatter(content: string): unknown {
+  return yaml.load(content, { schema: yaml.CORE_SCHEMA })
+}
+
+/** Find the line of a value in YAML content, by its path of keys and list indexes,
+ * falling back to the closest parent that is found
+ */
+export function yamlPathLine(lines: string[], path: (string | number)[]): number {
+  let start = 0
+  let end = lines.length
+  let found = -1
+  for (const segment of path) {
+    let line = -1
+    let column = -1
+    if (typeof segment === "string") {
+      for (let i = start; i < end; i++) {
+        const match = lines[i].match(KEY_PATTERN)
+        if (match && match[3] === segment) {
+          line = i
+          column = match[1].length + (match[2] || "").length
+          break
+        }
+      }
+    } else {
+      // list items are the lines starting with a dash, at the smallest indentation
+      const items: [number, number][] = []
+      for (let i = start; i < end; i++) {
+        const match = lines[i].match(/^(\s*)-(\s|$)/)
+        if (match) {
+          items.push([i, match[1].length])
+        }
+      }
+      const minColumn = Math.min(...items.map(([, col]) => col))
+      const item = items.filter(([, col]) => col === minColumn)[segment]
+      if (item) {
+        // the content of the item may start on the same line, e.g. `- name: value`
+        line = item[0]
+        column = item[1]
+        start = line
+      }
+    }
+    if (line < 0) {
+      break
+    }
+    found = line
+    if (typeof segment === "string") {
+      start = line + 1
+    }
+    // the value ends at the next line that is not indented further
+    for (let i = line + 1; i < end; i++) {
+      const indent = lines[i].search(/\S/)
+      if (indent >= 0 && indent <= column && !lines[i].trim().startsWith("#")) {
+        end = i
+        break
+      }
+    }
+  }
+  return found
+}
+
+/** Validate data against a schema, replacing the errors for values not matching any
+ * alternative (`anyOf`) by the errors for the alternative with the same type as the value
+ */
+function validateSchema(
+  data: unknown,
+  schema: any,
+  path: (string | number)[] = []
+): { path: (string | number)[]; message: string }[] {
+  const errors: { path: (string | number)[]; message: string }[] = []
+  for (const error of validate(data, schema).errors) {
+    const errorPath = [...path, ...error.path]
+    if (error.name === "anyOf") {
+      const type = Array.isArray(error.instance) ? "array" : typeof error.instance
+      const schema = error.schema as { anyOf?: { type?: string }[] }
+      const alternative = schema.anyOf?.find(s => s.type === type)
+      if (alternative) {
+        errors.push(...validateSchema(error.instance, alternative, errorPath))
+        continue
+      }
+    }
+    errors.push({ path: errorPath, message: error.message })
+  }
+  return errors
+}
+
+/** Create diagnostics for the YAML front matter of a document,
+ * validated against the MyST page front matter schema
+ */
+export function frontMatterDiagnostics(token: Token): Diagnostic[] {
+  const content: string = token.meta || ""
+  const lines = content.split("\n")
+  // the content starts after the opening `---`
+  const lineRange = (line: number) => ({
+    start: { line: line + 1, character: 0 },
+    end: { line: line + 1, character: lines[line]?.length || 0 }
+  })
+  let data: unknown
+  try {
+    data = loadFrontMatter(content)
+  } catch (err) {
+    const yamlError = err instanceof yaml.YAMLException ? err : null
+    return [
+      {
+        range: lineRange(yamlError ? yamlError.mark.line : 0),
+        message: `Invalid front matter: ${yamlError ? yamlError.reason : err}`,
+        severity: DiagnosticSeverity.Error,
+        code: "invalid-front-matter"
+      }
+    ]
+  }
+  if (data === null || data === undefined) {
+    return []
+  }
+  return validateSchema(data, frontmatterSchema).map(error => {
+    const line = yamlPathLine(lines, error.path)
+    const property = error.path
+      .map(segment => (typeof segment === "number" ? `[${segment}]` : `.${segment}`))
+      .join("")
+      .replace(/^\./, "")
+    return {
+      range:
+        line < 0
+          ? { start: { line: 0, character: 0 }, end: { line: 0, character: 3 } }
+          : lineRange(line),
+      message: `Invalid front matter: ${property ? `${property} ` : ""}${
+        error.message
+      }`,
+      severity: DiagnosticSeverity.Warning,
+      code: "invalid-front-matter"
+    }
+  })
+}
+
+/** Check if the front matter excludes a document from the table of contents,
+ * i.e. `orphan: true`
+ */
+export function isOrphan(token: Token): boolean {
+  try {
+    const data: any = loadFrontMatter(token.meta || "")
+    return data?.orphan === true
+  } catch (err) {
+    return false
+  }
+}
+
+/** Convert a substitution value to text, e.g. for display */
+export function substitutionText(value: unknown): string {
+  return typeof value === "string" ? value : JSON.stringify(value)
+}
+
+/** Get the substitutions defined in the front matter,
+ * under the `substitutions` or `myst.substitutions` keys
+ */
+export function frontMatterSubstitutions(
+  token: Token,
+  uri: string
+): ISubstitutionData[] {
+  const content: string = token.meta || ""
+  const lines = content.split("\n")
+  let data: any
+  try {
+    data = loadFrontMatter(content)
+  } catch (err) {
+    return []
+  }
+  const substitutions: ISubstitutionData[] = []
+  for (const path of [["substitutions"], ["myst", "substitutions"]]) {
+    const values = path.reduce((value, key) => value?.[key], data)
+    if (!values || typeof values !== "object" || Array.isArray(values)) {
+      continue
+    }
+    for (const [name, value] of Object.entries(values)) {
+      substitutions.push({
+        uri,
+        name,
+        value: substitutionText(value),
+        // the content starts after the opening `---`
+        line: Math.max(yamlPathLine(lines, [...path, name]), 0) + 1
+      })
+    }
+  }
+  return substitutions
+}
+
+/** Get the path of the keys (or list items) containing a column of a line in YAML content */
+function yamlParentPath(lines: string[], line: number, column: number): string[] {
+  const path: string[] = []
+  for (let i = line; i >= 0 && column > 0; i--) {
+    const text = i === line ? lines[i].slice(0, column) : lines[i]
+    if (!text.trim() || text.trim().startsWith("#")) {
+      continue
+    }
+    const match = text.match(/^(\s*)(-\s+)?(([\w-]+)\s*:)?/) as RegExpMatchArray
+    const keyColumn = match[1].length + (match[2] || "").length
+    if (i !== line && match[4] && keyColumn < column) {
+      path.unshift(match[4])
+      column = keyColumn
+    }
+    if (match[2] && match[1].length < column) {
+      path.unshift(ITEM)
+      column = match[1].length
+    }
+  }
+  return path
+}
+
+/** Get the schemas at a path of keys (or list items), including any alternatives */
+function schemasAtPath(path: string[]): any[] {
+  const expand = (schema: any): any[] =>
+    [schema, ...(schema.anyOf || []), ...(schema.oneOf || [])].filter(s => s)
+  let schemas = expand(frontmatterSchema)
+  for (const segment of path) {
+    schemas = schemas
+      .map(schema => (segment === ITEM ? schema.items : schema.properties?.[segment]))
+      .filter(schema => schema)
+      .flatMap(expand)
+  }
+  return schemas
+}
+
+/** Describe a front matter key, by its schema */
+function describeKey(key: string, schema: any): MarkupContent {
+  const types = [schema, ...(schema.anyOf || [])]
+    .flatMap(s => s.type || [])
+    .filter((type, index, all) => all.indexOf(type) === index)
+  return {
+    kind: MarkupKind.Markdown,
+    value: `**${key}**${types.length ? ` (${types.join(" | ")})` : ""}\n\n${
+      schema.description || ""
+    }`
+  }
+}
+
+/** Check if a line of a document is within the content of the front matter */
+export function inFrontMatter(token: Token, line: number): boolean {
+  return (
+    token.type === "front_matter" && !!token.map && line > 0 && line < token.map[1] - 1
+  )
+}
+
+/** Create completions for the keys of the front matter, at a cursor position */
+export function completeFrontMatter(
+  token: Token,
+  position: Position
+): CompletionItem[] {
+  const lines: string[] = (token.meta || "").split("\n")
+  const line = position.line - 1
+  const before = (lines[line] || "").slice(0, position.character)
+  const match = before.match(/^(\s*)(-\s+)?([\w-]*)$/)
+  if (!match) {
+    return []
+  }
+  const column = match[1].length + (match[2] || "").length
+  const path = yamlParentPath(lines, line, column)
+  const items: CompletionItem[] = []
+  for (const schema of schemasAtPath(path)) {
+    for (const [key, keySchema] of Object.entries<any>(schema.properties || {})) {
+      if (key.startsWith(match[3]) && !items.some(item => item.label === key)) {
+        items.push({
+          label: key,
+          kind: CompletionItemKind.Property,
+          detail: "Front matter",
+          documentation: describeKey(key, keySchema),
+          textEdit: {
+            newText: `${key}: `,
+            range: {
+              start: { line: position.line, character: column },
+              end: position
+            }
+          }
+        })
+      }
+    }
+  }
+  return items
+}
+
+/** Describe the front matter key at a cursor position */
+export function hoverFrontMatter(
+  token: Token,
+  position: Position
+): MarkupContent | null {
+  const lines: string[] = (token.meta || "").split("\n")
+  const line = position.line - 1
+  const match = (lines[line] || "").match(KEY_PATTERN)
+  if (!match) {
+    return null
+  }
+  const column = match[1].length + (match[2] || "").length
+  if (position.character < column || position.character > column + match[3].length) {
+    return null
+  }
+  const path = yamlParentPath(lines, line, column)
+  const schema = schemasAtPath(path).find(s => s.properties?.[match[3]])
+  return schema ? describeKey(match[3], schema.properties[match[3]]) : null
+}
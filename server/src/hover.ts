@@ -0,0 +1,309 @@
+import fs from "fs"
+import path from "path"
+import {
+  Hover,
+  MarkupContent,
+  MarkupKind,
+  TextDocumentPositionParams
+} from "vscode-languageserver"
+import { URI } from "vscode-uri"
+
+import { formatBibEntry } from "./bibtex"
+import * as dirDict from "./directives.json"
+import { makeDescription, matchDirectiveName } from "./directiveUtils"
+import { hoverFrontMatter, inFrontMatter } from "./frontmatter"
+import { ITargetData } from "./parser"
+import { IWorkspace } from "./project"
+import { isUrl, TARGET_REFERENCE_TYPES } from "./referenceUtils"
+import * as roleDict from "./roles.json"
+import { makeRoleDescription, matchRoleName, ROLE_TARGET_TYPES } from "./roleUtils"
+import { getLine, rangeContains } from "./utils"
+
+/** Identify the hover contents for a position in a document,
+ * e.g. the description of a directive or a preview of a link target
+ */
+export function getHover(
+  workspace: IWorkspace,
+  params: TextDocumentPositionParams
+): Hover | null {
+  const doc = workspace.getDocument(params.textDocument.uri)
+  const docData = workspace.cache.getData(params.textDocument.uri)
+  if (!docData || !doc) {
+    return null
+  }
+
+  const indexes = docData.lineToTokenIndex[params.position.line] || []
+
+  for (const index of indexes) {
+    const token = docData.tokens[index]
+
+    if (!token.map) {
+      continue
+    }
+
+    // Hover over a directive name
+    if (
+      (token.type === "fence" || token.type === "div_open") &&
+      params.position.line === token.map[0]
+    ) {
+      const name = matchDirectiveName(doc, params)
+      if (name) {
+        const dict: { [key: string]: { name: string } } = dirDict
+        const data = dict[name]
+        if (data) {
+          return {
+            contents: makeDescription(data)
+          }
+        }
+      }
+      // Hover over the image path of an image or figure directive
+      const line = getLine(doc, token.map[0])
+      const match = line.match(
+        /^(\s*(`{3,}|~{3,}|:{3,})\{(figure|image)\}\s*)(\S.*?)\s*$/
+      )
+      if (match) {
+        const range = {
+          start: { line: token.map[0], character: match[1].length },
+          end: { line: token.map[0], character: match[1].length + match[4].length }
+        }
+        const contents = rangeContains(range, params.position)
+          ? hoverImage(workspace, doc.uri, match[4])
+          : null
+        if (contents) {
+          return { contents, range }
+        }
+      }
+    }
+
+    // Hover over a front matter key
+    if (inFrontMatter(token, params.position.line)) {
+      const contents = hoverFrontMatter(token, params.position)
+      if (contents) {
+        return { contents }
+      }
+    }
+
+    // Hover over a substitution, to show its value
+    if (token.type === "inline") {
+      for (const ref of docData.refs) {
+        if (ref.type === "substitution" && rangeContains(ref.range, params.position)) {
+          const substitution = workspace
+            .getProject(doc.uri)
+            .getSubstitutions(workspace.cache, doc.uri)
+            .get(ref.name)
+          if (substitution) {
+            return {
+              contents: { kind: MarkupKind.Markdown, value: substitution.value },
+              range: ref.range
+            }
+          }
+        }
+      }
+    }
+
+    // Hover over a citation key, to show its bibliography entry
+    if (token.type === "inline") {
+      for (const ref of docData.refs) {
+        if (ref.type === "cite" && rangeContains(ref.range, params.position)) {
+          const citation = workspace.getProject(doc.uri).citations.get(ref.name)
+          if (citation) {
+            return {
+              contents: {
+                kind: MarkupKind.Markdown,
+                value: formatBibEntry(citation)
+              },
+              range: ref.range
+            }
+          }
+        }
+      }
+    }
+
+    // Hover over a glossary term, to show its definition
+    if (token.type === "inline") {
+      for (const ref of docData.refs) {
+        if (ref.type === "term" && rangeContains(ref.range, params.position)) {
+          const term = workspace
+            .getProject(doc.uri)
+            .db.getTargets(ref.name, ["term"])[0]
+          if (term) {
+            return {
+              contents: {
+                kind: MarkupKind.Markdown,
+                value: `**${doc.getText(ref.range)}**\n\n${term.content || ""}`
+              },
+              range: ref.range
+            }
+          }
+        }
+      }
+    }
+
+    // Hover over a link or reference, to show where its target is and a preview
+    if (token.type === "inline") {
+      const project = workspace.getProject(doc.uri)
+      for (const ref of docData.refs) {
+        if (
+          !TARGET_REFERENCE_TYPES.includes(ref.type) ||
+          !rangeContains(ref.range, params.position)
+        ) {
+          continue
+        }
+        if (ref.type === "link" && IMAGE_PATTERN.test(ref.name)) {
+          const contents = hoverImage(workspace, doc.uri, ref.name)
+          if (contents) {
+            return { contents, range: ref.range }
+          }
+        }
+        const targets =
+          ref.type === "link"
+            ? project.getLinkTargets(doc.uri, ref.name)
+            : project.db.getTargets(ref.name, ROLE_TARGET_TYPES[ref.type])
+        if (targets.length) {
+          return {
+            contents: {
+              kind: MarkupKind.Markdown,
+              value: targets
+                .map(target => hoverTarget(workspace, target))
+                .join("\n\n---\n\n")
+            },
+            range: ref.range
+          }
+        }
+      }
+    }
+
+    // Hover over a definition reference, e.g. [label], to show its destination
+    if (token.type === "inline") {
+      for (const ref of docData.refs) {
+        if (ref.type === "definition" && rangeContains(ref.range, params.position)) {
+          for (const def of workspace.cache.iterDefs(doc.uri)) {
+            if (def.key === ref.name) {
+              const href = isUrl(def.href) ? `<${def.href}>` : `\`${def.href}\``
+              return {
+                contents: {
+                  kind: MarkupKind.Markdown,
+                  value: def.title ? `${def.title}\n\n${href}` : href
+                },
+                range: ref.range
+              }
+            }
+          }
+        }
+      }
+    }
+
+    // Hover over a role name
+    if (token.type === "inline") {
+      const name = matchRoleName(doc, params)
+      const dict: { [key: string]: { name: string } } = roleDict
+      if (name && Object.prototype.hasOwnProperty.call(dict, name)) {
+        return {
+          contents: makeRoleDescription(name, dict[name])
+        }
+      }
+    }
+  }
+
+  return null
+}
+
+/** Make the hover contents for an image path, which renders the image */
+function hoverImage(
+  workspace: IWorkspace,
+  uri: string,
+  link: string
+): MarkupContent | null {
+  const location = workspace.getProject(uri).getFileLocation(uri, link)
+  if (!location) {
+    return null
+  }
+  return { kind: MarkupKind.Markdown, value: `![${link}](${location.uri})` }
+}
+
+/** Make the hover contents for a target, with its file and line,
+ * and a preview of the block it labels
+ */
+function hoverTarget(workspace: IWorkspace, target: ITargetData): string {
+  const rootUri = workspace.getProject(target.uri).rootUri
+  const filePath = URI.parse(target.uri).fsPath
+  const file = (
+    rootUri
+      ? path.relative(URI.parse(rootUri).fsPath, filePath)
+      : path.basename(filePath)
+  )
+    .split(path.sep)
+    .join("/")
+  const location = `\`${file}:${target.line + 1}\``
+  const lines = getDocumentLines(workspace, target.uri)
+  if (!lines) {
+    return location
+  }
+  // a `(name)=` target labels the next block, whereas the others are on their block
+  let line = target.line
+  if (target.type === "target") {
+    line++
+    while (line < lines.length && !lines[line].trim()) {
+      line++
+    }
+  }
+  const preview = previewBlock(lines, line)
+  return preview ? `${location}\n\n${preview}` : location
+}
+
+/** Get the lines of a document, if it is open, or else from its file
+ * (notebooks are only read if open, since their targets are in cells)
+ */
+function getDocumentLines(workspace: IWorkspace, uri: string): string[] | null {
+  const doc = workspace.getDocument(uri)
+  if (doc) {
+    return doc.getText().split(/\r?\n/)
+  }
+  const docUri = URI.parse(uri)
+  if (docUri.scheme !== "file" || docUri.fsPath.endsWith(".ipynb")) {
+    return null
+  }
+  try {
+    return fs.readFileSync(docUri.fsPath, "utf8").split(/\r?\n/)
+  } catch (e) {
+    return null
+  }
+}
+
+/** Image file paths, which are rendered on hover */
+const IMAGE_PATTERN = /\.(png|jpe?g|gif|svg|webp|bmp)([?#].*)?$/i
+
+/** The maximum number of lines of a block to preview on hover */
+const PREVIEW_LINES = 5
+
+/** Make a markdown preview of the block starting at a line:
+ * the text of a heading, or else the first lines of the block, as a code block
+ */
+function previewBlock(lines: string[], line: number): string {
+  if (line >= lines.length) {
+    return ""
+  }
+  const heading = lines[line].match(/^\s{0,3}#{1,6}\s+(.*?)(\s+#+)?\s*$/)
+  if (heading) {
+    return `**${heading[1]}**`
+  }
+  // directives may have a blank line between their options and content
+  const directive = /^\s*(`{3,}|~{3,}|:{3,})\{/.test(lines[line])
+  const block: string[] = []
+  for (let next = line; next < lines.length && block.length < PREVIEW_LINES; next++) {
+    if (!directive && !lines[next].trim()) {
+      break
+    }
+    block.push(lines[next])
+  }
+  while (block.length && !block[block.length - 1].trim()) {
+    block.pop()
+  }
+  // the fence must be longer than any backtick fence within the block
+  const backticks = Math.max(
+    2,
+    ...block.map(text => (text.match(/^\s*(`*)/) || ["", ""])[1].length)
+  )
+  const fence = "`".repeat(backticks + 1)
+  return `${fence}markdown\n${block.join("\n")}\n${fence}`
+}
@@ -0,0 +1,55 @@
+/* --------------------------------------------------------------------------------------------
+ * Licensed under the MIT License. See License file in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+
+/** The MyST analysis library, which parses and indexes MyST documents,
+ * independently of a language server connection, e.g.
+ *
+ * ```ts
+ * import { MystProject, mergeConfig, readConfigFile } from "myst-lsp"
+ *
+ * const project = new MystProject(rootUri, mergeConfig(readConfigFile(rootPath)))
+ * await project.index()
+ * ```
+ */
+export { formatBibEntry, IBibEntry, ICitationData, parseBibtex } from "./bibtex"
+export { getQuickFixes, getRefactorActions } from "./codeActions"
+export {
+  CONFIG_FILE,
+  defaultConfig,
+  mergeConfig,
+  readConfigFile,
+  ServerConfig
+} from "./config"
+export { DocCache, ICacheData, projectDatabase } from "./database"
+export { formatDocument } from "./formatter"
+export { definitionPlugin } from "./mditPlugins/defintions"
+export { footnotePlugin } from "./mditPlugins/footnotes"
+export { amsmathPlugin, dollarmathPlugin } from "./mditPlugins/math"
+export { mystBlocksPlugin } from "./mditPlugins/mystBlocks"
+export { mystDivPlugin } from "./mditPlugins/mystDiv"
+export {
+  cellUriGenerate,
+  createParser,
+  IDefinition,
+  IDocumentData,
+  IFileIndex,
+  IFootnoteDefinition,
+  IHeadingData,
+  IParseResult,
+  IReferenceData,
+  ISubstitutionData,
+  ITargetData,
+  parseFile,
+  parseTextDocument
+} from "./parser"
+export { MystProject } from "./project"
+export {
+  ILineCodeSpan,
+  ILineReference,
+  isCiteRole,
+  isFilePath,
+  isUrl,
+  parseCodeSpans,
+  parseLineReferences
+} from "./referenceUtils"
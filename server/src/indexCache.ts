@@ -0,0 +1,72 @@
+import crypto from "crypto"
+import fs from "fs"
+import os from "os"
+import path from "path"
+
+/** Increment when the format of the cached data changes */
+const CACHE_VERSION = 8
+
+/** The cached index data of a single file, with its modification time when parsed */
+export interface ICachedFile<T> {
+  mtime: number
+  data: T
+}
+
+interface IIndexCache<T> {
+  version: number
+  configHash: string
+  files: { [filePath: string]: ICachedFile<T> }
+}
+
+/** Create a hash of the configuration that the cached data depends on */
+export function hashConfig(config: unknown): string {
+  return crypto.createHash("sha1").update(JSON.stringify(config)).digest("hex")
+}
+
+/** Get the path of the cache file for a project root directory,
+ * within the user's cache directory (respecting `XDG_CACHE_HOME`)
+ */
+export function indexCachePath(rootPath: string): string {
+  const cacheHome = process.env.XDG_CACHE_HOME || path.join(os.homedir(), ".cache")
+  return path.join(cacheHome, "myst-lsp", `${hashConfig(rootPath)}.json`)
+}
+
+/** Load the cached index data of a project,
+ * discarding it if it was created with a different configuration
+ */
+export function loadIndexCache<T>(
+  rootPath: string,
+  configHash: string
+): Map<string, ICachedFile<T>> {
+  const cachePath = indexCachePath(rootPath)
+  if (!fs.existsSync(cachePath)) {
+    return new Map()
+  }
+  const cache = JSON.parse(fs.readFileSync(cachePath, "utf8")) as IIndexCache<T>
+  if (cache.version !== CACHE_VERSION || cache.configHash !== configHash) {
+    return new Map()
+  }
+  return new Map(Object.entries(cache.files))
+}
+
+/** Save the index data of a project to the cache */
+export function saveIndexCache<T>(
+  rootPath: string,
+  configHash: string,
+  files: Map<string, ICachedFile<T>>
+) {
+  const cachePath = indexCachePath(rootPath)
+  const cache: IIndexCache<T> = {
+    version: CACHE_VERSION,
+    configHash,
+    files: Object.fromEntries(files)
+  }
+  fs.mkdirSync(path.dirname(cachePath), { recursive: true })
+  // LokiJS adds its own metadata to inserted objects, which should not be cached
+  fs.writeFileSync(
+    cachePath,
+    JSON.stringify(cache, (key, value) =>
+      key === "$loki" || key === "meta" ? undefined : value
+    )
+  )
+}
@@ -0,0 +1,122 @@
+import MarkdownIt = require("markdown-it")
+import { isSpace } from "markdown-it/lib/common/utils"
+import StateBlock = require("markdown-it/lib/rules_block/state_block")
+
+/** A reimplementation of markdown-it-footnote's block parser for footnote definitions,
+ * e.g. `[^label]: text`, with a map for the definition tokens.
+ *
+ * Footnote references are inline syntax, so are not parsed here,
+ * and the definitions are not moved to the end of the document.
+ *
+ * https://github.com/markdown-it/markdown-it-footnote/blob/3.0.3/index.js#L171-L269
+ */
+export function footnotePlugin(md: MarkdownIt): void {
+  md.block.ruler.before("reference", "footnote_def", footnoteDef, {
+    alt: ["paragraph", "reference"]
+  })
+}
+
+function footnoteDef(
+  state: StateBlock,
+  startLine: number,
+  endLine: number,
+  silent: boolean
+): boolean {
+  const start = state.bMarks[startLine] + state.tShift[startLine]
+  const max = state.eMarks[startLine]
+
+  // line should be at least 5 chars - "[^x]:"
+  if (start + 4 > max) {
+    return false
+  }
+  if (state.src.charCodeAt(start) !== 0x5b /* [ */) {
+    return false
+  }
+  if (state.src.charCodeAt(start + 1) !== 0x5e /* ^ */) {
+    return false
+  }
+
+  let pos
+  for (pos = start + 2; pos < max; pos++) {
+    if (state.src.charCodeAt(pos) === 0x20) {
+      return false
+    }
+    if (state.src.charCodeAt(pos) === 0x5d /* ] */) {
+      break
+    }
+  }
+
+  // no empty footnote labels
+  if (pos === start + 2) {
+    return false
+  }
+  if (pos + 1 >= max || state.src.charCodeAt(++pos) !== 0x3a /* : */) {
+    return false
+  }
+  if (silent) {
+    return true
+  }
+  pos++
+
+  const label = state.src.slice(start + 2, pos - 2)
+  const openToken = state.push("footnote_reference_open", "", 1)
+  openToken.meta = { label }
+  openToken.block = true
+
+  const oldBMark = state.bMarks[startLine]
+  const oldTShift = state.tShift[startLine]
+  const oldSCount = state.sCount[startLine]
+  const oldParentType = state.parentType
+
+  const posAfterColon = pos
+  const initial =
+    state.sCount[startLine] + pos - (state.bMarks[startLine] + state.tShift[startLine])
+  let offset = initial
+
+  while (pos < max) {
+    const ch = state.src.charCodeAt(pos)
+    if (isSpace(ch)) {
+      if (ch === 0x09) {
+        offset += 4 - (offset % 4)
+      } else {
+        offset++
+      }
+    } else {
+      break
+    }
+    pos++
+  }
+
+  state.tShift[startLine] = pos - posAfterColon
+  state.sCount[startLine] = offset - initial
+
+  state.bMarks[startLine] = posAfterColon
+  state.blkIndent += 4
+  // eslint-disable-next-line @typescript-eslint/ban-ts-comment
+  // @ts-ignore
+  state.parentType = "footnote"
+
+  if (state.sCount[startLine] < state.blkIndent) {
+    state.sCount[startLine] += state.blkIndent
+  }
+
+  state.md.block.tokenize(state, startLine, endLine)
+
+  state.parentType = oldParentType
+  state.blkIndent -= 4
+  state.tShift[startLine] = oldTShift
+  state.sCount[startLine] = oldSCount
+  state.bMarks[startLine] = oldBMark
+
+  // the block content may end with blank lines, which are not part of the footnote
+  let lastLine = state.line
+  while (lastLine > startLine + 1 && state.isEmpty(lastLine - 1)) {
+    lastLine--
+  }
+  openToken.map = [startLine, lastLine]
+
+  const closeToken = state.push("footnote_reference_close", "", -1)
+  closeToken.block = true
+
+  return true
+}
@@ -0,0 +1,163 @@
+import MarkdownIt = require("markdown-it")
+import StateBlock = require("markdown-it/lib/rules_block/state_block")
+
+/** The closing marker of a math block, with an optional label, e.g. `$$ (label)` */
+const CLOSE_PATTERN = /\$\$\s*(?:\(([^()\s]+)\))?\s*$/
+
+/** Parse dollar math blocks (``$$ ... $$``), with an optional label after the
+ * closing marker, e.g. ``$$ (label)``.
+ *
+ * Inline math is not parsed, and blocks without a closing marker run to the end of
+ * their container, like code fences, with `meta.closed` set to false.
+ *
+ * Adapted from: mdit_py_plugins/dollarmath/index.py
+ */
+export function dollarmathPlugin(md: MarkdownIt): void {
+  md.block.ruler.before("fence", "math_block", parse_math_block, {
+    alt: ["paragraph", "reference", "blockquote", "list", "footnote_def"]
+  })
+}
+
+/** Parse amsmath environments, e.g. ``\begin{equation} ... \end{equation}``.
+ *
+ * Adapted from: mdit_py_plugins/amsmath/__init__.py
+ */
+export function amsmathPlugin(md: MarkdownIt): void {
+  md.block.ruler.before("blockquote", "amsmath", parse_amsmath, {
+    alt: ["paragraph", "reference", "blockquote", "list", "footnote_def"]
+  })
+}
+
+function parse_math_block(
+  state: StateBlock,
+  startLine: number,
+  endLine: number,
+  silent: boolean
+): boolean {
+  const start = state.bMarks[startLine] + state.tShift[startLine]
+  const maximum = state.eMarks[startLine]
+
+  // if it's indented more than 3 spaces, it should be a code block
+  if (state.sCount[startLine] - state.blkIndent >= 4) {
+    return false
+  }
+  if (!state.src.startsWith("$$", start)) {
+    return false
+  }
+  if (silent) {
+    return true
+  }
+
+  let lines: string[]
+  let label = ""
+  let closed = false
+  let nextLine = startLine
+  const firstLine = state.src.slice(start + 2, maximum)
+  const singleMatch = firstLine.match(CLOSE_PATTERN)
+  if (singleMatch) {
+    // the block opens and closes on the same line, e.g. `$$ a = 1 $$ (label)`
+    lines = [firstLine.slice(0, singleMatch.index)]
+    label = singleMatch[1] || ""
+    closed = true
+  } else {
+    lines = firstLine.trim() ? [firstLine] : []
+    for (nextLine = startLine + 1; nextLine < endLine; nextLine++) {
+      const pos = state.bMarks[nextLine] + state.tShift[nextLine]
+      const max = state.eMarks[nextLine]
+      if (pos < max && state.sCount[nextLine] < state.blkIndent) {
+        // non-empty line with negative indent should stop the block
+        break
+      }
+      const text = state.src.slice(pos, max)
+      const match = text.match(CLOSE_PATTERN)
+      if (match) {
+        lines.push(text.slice(0, match.index))
+        label = match[1] || ""
+        closed = true
+        break
+      }
+      lines.push(state.src.slice(state.bMarks[nextLine], max))
+    }
+  }
+
+  state.line = nextLine + (closed ? 1 : 0)
+
+  const token = state.push("math_block", "math", 0)
+  token.block = true
+  token.content = lines.join("\n").trim()
+  token.info = label
+  token.markup = "$$"
+  token.meta = { closed }
+  token.map = [startLine, state.line]
+  return true
+}
+
+/** The environments of the amsmath package, which can be numbered or not, e.g. `align*` */
+const AMSMATH_ENVIRONMENTS = [
+  "equation",
+  "multline",
+  "gather",
+  "align",
+  "alignat",
+  "flalign",
+  "matrix",
+  "pmatrix",
+  "bmatrix",
+  "Bmatrix",
+  "vmatrix",
+  "Vmatrix",
+  "eqnarray"
+]
+
+function parse_amsmath(
+  state: StateBlock,
+  startLine: number,
+  endLine: number,
+  silent: boolean
+): boolean {
+  const start = state.bMarks[startLine] + state.tShift[startLine]
+
+  // if it's indented more than 3 spaces, it should be a code block
+  if (state.sCount[startLine] - state.blkIndent >= 4) {
+    return false
+  }
+  const match = state.src
+    .slice(start, state.eMarks[startLine])
+    .match(/^\\begin\{([a-zA-Z]+)(\*?)\}/)
+  if (!match || !AMSMATH_ENVIRONMENTS.includes(match[1])) {
+    return false
+  }
+  const environment = match[1] + match[2]
+  const endMarker = `\\end{${environment}}`
+
+  // the environment ends at the end marker, which must end its line
+  let nextLine: number
+  let found = false
+  for (nextLine = startLine; nextLine < endLine; nextLine++) {
+    const lineStart =
+      nextLine === startLine ? start + match[0].length : state.bMarks[nextLine]
+    const text = state.src.slice(lineStart, state.eMarks[nextLine])
+    const index = text.indexOf(endMarker)
+    if (index >= 0) {
+      if (text.slice(index + endMarker.length).trim()) {
+        return false
+      }
+      found = true
+      break
+    }
+  }
+  if (!found) {
+    return false
+  }
+  if (silent) {
+    return true
+  }
+
+  state.line = nextLine + 1
+  const token = state.push("amsmath", "math", 0)
+  token.block = true
+  token.content = state.getLines(startLine, state.line, state.blkIndent, false)
+  token.meta = { environment, numbered: !match[2] }
+  token.map = [startLine, state.line]
+  return true
+}
@@ -116,7 +116,7 @@ function parse_block_break(
   return true
 }
 
-const TARGET_PATTERN = /^\((?<label>[a-zA-Z0-9|@<>*./_\-+:]{1,100})\)=\s*$/
+export const TARGET_PATTERN = /^\((?<label>[a-zA-Z0-9|@<>*./_\-+:]{1,100})\)=\s*$/
 
 function parse_target(
   state: StateBlock,
@@ -0,0 +1,434 @@
+import { normalizeReference } from "markdown-it/lib/common/utils"
+import {
+  DefinitionParams,
+  DocumentLink,
+  DocumentLinkParams,
+  ErrorCodes,
+  Location,
+  Position,
+  PrepareRenameParams,
+  Range,
+  ReferenceParams,
+  RenameParams,
+  ResponseError,
+  TextEdit,
+  WorkspaceEdit
+} from "vscode-languageserver"
+import { TextDocument } from "vscode-languageserver-textdocument"
+import { URI } from "vscode-uri"
+
+import { TARGET_PATTERN } from "./mditPlugins/mystBlocks"
+import { IDefinition } from "./parser"
+import { IWorkspace } from "./project"
+import {
+  isFilePath,
+  isUrl,
+  LINK_TARGET_TYPES,
+  TARGET_REFERENCE_TYPES
+} from "./referenceUtils"
+import { ROLE_TARGET_TYPES } from "./roleUtils"
+import {
+  getLine,
+  matchReferenceDefinition,
+  matchReferenceLink,
+  rangeContains
+} from "./utils"
+
+/** Find the locations of the target, file or definition referenced at a position */
+export function getDefinitions(
+  workspace: IWorkspace,
+  params: DefinitionParams
+): Location[] | null {
+  const doc = workspace.getDocument(params.textDocument.uri)
+  if (!doc) {
+    return null
+  }
+  const project = workspace.getProject(params.textDocument.uri)
+  const defs: Location[] = []
+  if (workspace.getProject(doc.uri).isTocDocument(doc.uri)) {
+    const toc = project.toc?.uri === doc.uri ? project.toc : null
+    for (const [index, entry] of (toc?.entries || []).entries()) {
+      const filePath = toc?.paths[index]
+      if (filePath && rangeContains(entry.range, params.position)) {
+        defs.push({
+          uri: URI.file(filePath).toString(),
+          range: { start: { line: 0, character: 0 }, end: { line: 0, character: 0 } }
+        })
+      }
+    }
+    return defs
+  }
+  const matchRefLink = matchReferenceLink(doc, params.position)
+  if (matchRefLink) {
+    const targets = project.getLinkTargets(params.textDocument.uri, matchRefLink.text)
+    if (!targets.length && isFilePath(matchRefLink.text)) {
+      const location = project.getFileLocation(
+        params.textDocument.uri,
+        matchRefLink.text
+      )
+      if (location) {
+        defs.push(location)
+      }
+    }
+    for (const target of targets) {
+      defs.push({
+        uri: target.uri,
+        range: {
+          start: {
+            line: target.line,
+            character: 0
+          },
+          end: {
+            line: target.line,
+            character: 10000
+          }
+        }
+      })
+    }
+  }
+  for (const ref of workspace.cache.getData(params.textDocument.uri)?.refs || []) {
+    if (ref.type === "cite" && rangeContains(ref.range, params.position)) {
+      const citation = project.citations.get(ref.name)
+      if (citation) {
+        defs.push({ uri: citation.uri, range: citation.range })
+      }
+    }
+    if (ref.type === "footnote" && rangeContains(ref.range, params.position)) {
+      for (const footnote of workspace.cache.iterFootnotes(params.textDocument.uri)) {
+        if (footnote.label === ref.name) {
+          defs.push({ uri: footnote.uri, range: footnote.range })
+        }
+      }
+    }
+    if (ref.type === "substitution" && rangeContains(ref.range, params.position)) {
+      const substitution = project
+        .getSubstitutions(workspace.cache, params.textDocument.uri)
+        .get(ref.name)
+      if (substitution) {
+        defs.push({
+          uri: substitution.uri,
+          range: {
+            start: { line: substitution.line, character: 0 },
+            end: { line: substitution.line, character: 10000 }
+          }
+        })
+      }
+    }
+    if (ROLE_TARGET_TYPES[ref.type] && rangeContains(ref.range, params.position)) {
+      for (const target of project.db.getTargets(
+        ref.name,
+        ROLE_TARGET_TYPES[ref.type]
+      )) {
+        defs.push({ uri: target.uri, range: target.range })
+      }
+    }
+    if (
+      (ref.type === "doc" || ref.type === "download") &&
+      rangeContains(ref.range, params.position)
+    ) {
+      const location =
+        ref.type === "doc"
+          ? project.getDocLocation(params.textDocument.uri, ref.name)
+          : project.getFileLocation(params.textDocument.uri, ref.name)
+      if (location) {
+        defs.push(location)
+      }
+    }
+  }
+  const matchRefDef = matchReferenceDefinition(doc, params.position)
+  if (matchRefDef) {
+    const defKey = normalizeReference(matchRefDef.text)
+    for (const def of workspace.cache.iterDefs(params.textDocument.uri)) {
+      if (def.key === defKey) {
+        defs.push({
+          uri: params.textDocument.uri,
+          range: {
+            start: {
+              line: def.line,
+              character: 0
+            },
+            end: {
+              line: def.line,
+              character: 10000
+            }
+          }
+        })
+      }
+    }
+  }
+  return defs
+}
+
+/** Identify the target, definition or footnote at a position in a document,
+ * either at its declaration or at a reference to it
+ */
+function getSymbolAtPosition(
+  workspace: IWorkspace,
+  uri: string,
+  position: Position
+): null | { type: "target" | "definition" | "footnote"; name: string; range: Range } {
+  const doc = workspace.getDocument(uri)
+  const docData = workspace.cache.getData(uri)
+  if (!docData || !doc) {
+    return null
+  }
+  for (const ref of docData.refs) {
+    if (rangeContains(ref.range, position)) {
+      if (ref.type === "definition" || ref.type === "footnote") {
+        return { type: ref.type, name: ref.name, range: ref.range }
+      }
+      if (TARGET_REFERENCE_TYPES.includes(ref.type)) {
+        return { type: "target", name: ref.name, range: ref.range }
+      }
+    }
+  }
+  for (const target of workspace.getProject(uri).db.getUriTargets(uri)) {
+    if (
+      LINK_TARGET_TYPES.includes(target.type) &&
+      position.line === target.range.start.line
+    ) {
+      return { type: "target", name: target.name, range: target.range }
+    }
+  }
+  for (const def of docData.defs) {
+    if (position.line === def.line) {
+      return { type: "definition", name: def.key, range: definitionRange(doc, def) }
+    }
+  }
+  for (const footnote of docData.footnotes) {
+    if (rangeContains(footnote.range, position)) {
+      return { type: "footnote", name: footnote.label, range: footnote.range }
+    }
+  }
+  return null
+}
+
+/** Find all locations of a target, definition or footnote, i.e. its references,
+ * and optionally its declarations
+ */
+function getSymbolLocations(
+  workspace: IWorkspace,
+  uri: string,
+  symbol: { type: "target" | "definition" | "footnote"; name: string },
+  includeDeclaration: boolean
+): Location[] {
+  const locations: Location[] = []
+  if (symbol.type === "target") {
+    if (includeDeclaration) {
+      for (const target of workspace
+        .getProject(uri)
+        .db.getTargets(symbol.name, LINK_TARGET_TYPES)) {
+        locations.push({ uri: target.uri, range: target.range })
+      }
+    }
+    for (const ref of workspace
+      .getProject(uri)
+      .db.getReferences(symbol.name, TARGET_REFERENCE_TYPES)) {
+      locations.push({ uri: ref.uri, range: ref.range })
+    }
+    return locations
+  }
+  // definitions and footnotes are local to a document (or the cells of a notebook)
+  const uris = workspace.cache.getRelatedUris(uri)
+  if (symbol.type === "footnote") {
+    if (includeDeclaration) {
+      for (const footnote of workspace.cache.iterFootnotes(uri)) {
+        if (footnote.label === symbol.name) {
+          locations.push({ uri: footnote.uri, range: footnote.range })
+        }
+      }
+    }
+    for (const relatedUri of uris) {
+      for (const ref of workspace.cache.getData(relatedUri)?.refs || []) {
+        if (ref.type === "footnote" && ref.name === symbol.name) {
+          locations.push({ uri: relatedUri, range: ref.range })
+        }
+      }
+    }
+    return locations
+  }
+  if (includeDeclaration) {
+    for (const relatedUri of uris) {
+      const doc = workspace.getDocument(relatedUri)
+      for (const def of workspace.cache.getData(relatedUri)?.defs || []) {
+        if (doc && def.key === symbol.name) {
+          locations.push({ uri: relatedUri, range: definitionRange(doc, def) })
+        }
+      }
+    }
+  }
+  for (const ref of workspace
+    .getProject(uri)
+    .db.getReferences(symbol.name, ["definition"])) {
+    if (uris.includes(ref.uri)) {
+      locations.push({ uri: ref.uri, range: ref.range })
+    }
+  }
+  return locations
+}
+
+/** Find the references to the symbol at a position, and optionally its declarations */
+export function findReferences(
+  workspace: IWorkspace,
+  params: ReferenceParams
+): Location[] {
+  const symbol = getSymbolAtPosition(
+    workspace,
+    params.textDocument.uri,
+    params.position
+  )
+  if (!symbol) {
+    return []
+  }
+  return getSymbolLocations(
+    workspace,
+    params.textDocument.uri,
+    symbol,
+    params.context.includeDeclaration
+  )
+}
+
+/** Find the range of the symbol to rename at a position, if any */
+export function prepareRename(
+  workspace: IWorkspace,
+  params: PrepareRenameParams
+): Range | null {
+  const symbol = getSymbolAtPosition(
+    workspace,
+    params.textDocument.uri,
+    params.position
+  )
+  return symbol ? symbol.range : null
+}
+
+/** Rename a target, definition or footnote, at all of its locations
+ *
+ * @param onWarning Called for locations which cannot be renamed
+ */
+export function renameSymbol(
+  workspace: IWorkspace,
+  params: RenameParams,
+  onWarning?: (message: string) => void
+): WorkspaceEdit | ResponseError<void> | null {
+  const symbol = getSymbolAtPosition(
+    workspace,
+    params.textDocument.uri,
+    params.position
+  )
+  if (!symbol) {
+    return null
+  }
+  if (symbol.type === "target" && !TARGET_PATTERN.test(`(${params.newName})=`)) {
+    return new ResponseError(
+      ErrorCodes.InvalidParams,
+      `Invalid target name: ${params.newName}`
+    )
+  }
+  if (symbol.type === "definition" && !normalizeReference(params.newName)) {
+    return new ResponseError(
+      ErrorCodes.InvalidParams,
+      `Invalid definition label: ${params.newName}`
+    )
+  }
+  if (symbol.type === "footnote" && !/^[^\]\s]+$/.test(params.newName)) {
+    return new ResponseError(
+      ErrorCodes.InvalidParams,
+      `Invalid footnote label: ${params.newName}`
+    )
+  }
+  const changes: { [uri: string]: TextEdit[] } = {}
+  for (const location of getSymbolLocations(
+    workspace,
+    params.textDocument.uri,
+    symbol,
+    true
+  )) {
+    // notebooks are only indexed per file (not per cell) by some clients,
+    // in which case the ranges cannot be mapped to the notebook JSON
+    if (location.uri.startsWith("file:") && location.uri.endsWith(".ipynb")) {
+      onWarning?.(`Cannot rename within notebook: ${location.uri}`)
+      continue
+    }
+    if (!changes[location.uri]) {
+      changes[location.uri] = []
+    }
+    changes[location.uri].push({ range: location.range, newText: params.newName })
+  }
+  return { changes }
+}
+
+/** Find the file paths and URLs of a document, which can be opened as links */
+export function getDocumentLinks(
+  workspace: IWorkspace,
+  params: DocumentLinkParams
+): DocumentLink[] {
+  const uri = params.textDocument.uri
+  const doc = workspace.getDocument(uri)
+  const data = workspace.cache.getData(uri)
+  if (!doc || !data) {
+    return []
+  }
+  const links: DocumentLink[] = []
+  // file paths in links and roles
+  for (const ref of data.refs) {
+    let location: Location | null = null
+    if (ref.type === "link" && !isUrl(ref.name) && isFilePath(ref.name)) {
+      location = workspace.getProject(uri).getFileLocation(uri, ref.name)
+    } else if (ref.type === "download") {
+      location = workspace.getProject(uri).getFileLocation(uri, ref.name)
+    } else if (ref.type === "doc") {
+      location = workspace.getProject(uri).getDocLocation(uri, ref.name)
+    }
+    if (location) {
+      links.push({ range: ref.range, target: location.uri })
+    }
+  }
+  for (const token of data.tokens) {
+    if (!token.map) {
+      continue
+    }
+    // file paths in directive arguments
+    if (token.type === "fence" || token.type === "div_open") {
+      const match = getLine(doc, token.map[0]).match(
+        /^(\s*(`{3,}|~{3,}|:{3,})\{(include|literalinclude|figure|image)\}\s*)(\S.*?)\s*$/
+      )
+      const location = match
+        ? workspace.getProject(uri).getFileLocation(uri, match[4])
+        : null
+      if (match && location) {
+        links.push({
+          range: {
+            start: { line: token.map[0], character: match[1].length },
+            end: { line: token.map[0], character: match[1].length + match[4].length }
+          },
+          target: location.uri
+        })
+      }
+    }
+    // URLs in inline text
+    if (token.type === "inline") {
+      for (let line = token.map[0]; line < token.map[1]; line++) {
+        for (const match of getLine(doc, line).matchAll(/https?:\/\/[^\s<>()`"]+/g)) {
+          const url = match[0].replace(/[.,;:!?]+$/, "")
+          links.push({
+            range: {
+              start: { line, character: match.index || 0 },
+              end: { line, character: (match.index || 0) + url.length }
+            },
+            target: url
+          })
+        }
+      }
+    }
+  }
+  return links
+}
+
+/** Find the range of the label in a definition, e.g. `[label]: href` */
+function definitionRange(doc: TextDocument, def: IDefinition): Range {
+  const start = getLine(doc, def.line).indexOf("[") + 1
+  return {
+    start: { line: def.line, character: start },
+    end: { line: def.line, character: start + def.raw.length }
+  }
+}
@@ -0,0 +1,642 @@
+import fs from "fs"
+import MarkdownIt from "markdown-it"
+import Token from "markdown-it/lib/token"
+import frontMatterPlugin from "markdown-it-front-matter"
+import { Diagnostic, DiagnosticSeverity, Range } from "vscode-languageserver"
+import { TextDocument } from "vscode-languageserver-textdocument"
+import { URI } from "vscode-uri"
+
+import { ServerConfig } from "./config"
+import * as dirDict from "./directives.json"
+import {
+  parseDirectiveOptions,
+  parseGlossary,
+  validateDirective
+} from "./directiveUtils"
+import { frontMatterDiagnostics, frontMatterSubstitutions } from "./frontmatter"
+import { definitionPlugin } from "./mditPlugins/defintions"
+import { footnotePlugin } from "./mditPlugins/footnotes"
+import { amsmathPlugin, dollarmathPlugin } from "./mditPlugins/math"
+import { mystBlocksPlugin } from "./mditPlugins/mystBlocks"
+import { mystDivPlugin } from "./mditPlugins/mystDiv"
+import { parseCodeSpans, parseLineReferences } from "./referenceUtils"
+import * as roleDict from "./roles.json"
+import { getLine, slugify } from "./utils"
+
+export interface ITargetData {
+  uri: string
+  name: string
+  line: number
+  /** the range of the target name */
+  range: Range
+  type: string
+  /** the name as written, if it is normalised, e.g. for a glossary term */
+  text?: string
+  /** the content the target describes, e.g. the definition of a glossary term */
+  content?: string
+}
+
+export interface IReferenceData {
+  uri: string
+  name: string
+  /** the range of the referenced name */
+  range: Range
+  /** "link", "definition", "footnote", "substitution", "cite" or the name of the role, e.g. "ref" */
+  type: string
+  /** true for shortcut [label] and collapsed [label][] definition references */
+  shortcut?: boolean
+}
+
+/** A substitution, defined in the front matter of a document or the project configuration */
+export interface ISubstitutionData {
+  /** the uri of the document or configuration file */
+  uri: string
+  name: string
+  value: string
+  line: number
+}
+
+export interface IHeadingData {
+  uri: string
+  /** the text content of the heading */
+  name: string
+  level: number
+  line: number
+}
+
+export interface IDocumentData {
+  /** the uri of a text file or notebook (not of a notebook cell) */
+  uri: string
+}
+
+/** The index data of a single file on disk */
+export interface IFileIndex {
+  documents: IDocumentData[]
+  targets: ITargetData[]
+  references: IReferenceData[]
+  headings: IHeadingData[]
+}
+
+export interface IDefinition {
+  key: string
+  raw: string
+  title: string
+  href: string
+  line: number
+}
+
+/** A footnote definition, e.g. `[^label]: text` */
+export interface IFootnoteDefinition {
+  uri: string
+  label: string
+  line: number
+  /** the range of the label */
+  range: Range
+}
+
+/** The data of a parsed text document */
+export interface IParseResult {
+  tokens: Token[]
+  /** the indexes of the tokens spanning each line */
+  lineToTokenIndex: number[][]
+  definitions: IDefinition[]
+  footnotes: IFootnoteDefinition[]
+  targets: ITargetData[]
+  references: IReferenceData[]
+  headings: IHeadingData[]
+  substitutions: ISubstitutionData[]
+  diagnostics: Diagnostic[]
+}
+
+/** Create a markdown-it parser, which only runs the block level parse,
+ * with the MyST plugins enabled by the configuration
+ */
+export function createParser(config: ServerConfig): MarkdownIt {
+  const md = new MarkdownIt("commonmark", {})
+  md.use(definitionPlugin)
+  md.use(footnotePlugin)
+  md.use(mystBlocksPlugin)
+  if (config.parsing.extensions.includes("colon_fence")) {
+    md.use(mystDivPlugin)
+  }
+  if (config.parsing.extensions.includes("dollarmath")) {
+    md.use(dollarmathPlugin)
+  }
+  if (config.parsing.extensions.includes("amsmath")) {
+    md.use(amsmathPlugin)
+  }
+  // eslint-disable-next-line @typescript-eslint/no-empty-function
+  md.use(frontMatterPlugin, () => {})
+  // the front matter plugin sets the end of the map to a character offset, not a line
+  md.core.ruler.push("front_matter_map", state => {
+    const token = state.tokens[0]
+    if (token?.type === "front_matter") {
+      token.map = [0, token.markup.split("\n").length]
+    }
+  })
+  md.enable("table")
+  // disable anything after block parsing, since we don't need it and want to parse fast
+  md.disable(["inline", "text_join"])
+  return md
+}
+
+/** Parse a text document
+ *
+ * @param textDocument The text document to parse
+ * @param config The configuration to parse with
+ */
+export function parseTextDocument(
+  textDocument: TextDocument,
+  config: ServerConfig
+): IParseResult {
+  // The validator creates diagnostics for all uppercase words length 2 and more
+  const text = textDocument.getText()
+
+  const tokens = createParser(config).parse(text, {})
+
+  // create a mapping of line number to token indexes that span that line
+  // this is used for cursor based server queries, such as hover and completions
+  const lineToTokenIndex: number[][] = []
+  const targets: ITargetData[] = []
+  const headings: IHeadingData[] = []
+  const definitions: IDefinition[] = []
+  const footnotes: IFootnoteDefinition[] = []
+  const substitutions: ISubstitutionData[] = []
+  const diagnostics: Diagnostic[] = []
+  const defKeys = new Set()
+  const inlineLines = new Set<number>()
+  const slugs = new Map<string, number>()
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i]
+    if (!token.map) {
+      continue
+    }
+    if (token.type === "front_matter") {
+      diagnostics.push(...frontMatterDiagnostics(token))
+      substitutions.push(...frontMatterSubstitutions(token, textDocument.uri))
+    }
+    // Collect definitions
+    if (token.type === "definition") {
+      if (defKeys.has(token.meta.key)) {
+        diagnostics.push({
+          range: {
+            start: { line: token.map[0], character: 0 },
+            end: { line: token.map[1], character: 1000 }
+          },
+          message: `Duplicate definition key: ${token.meta.key}`,
+          severity: DiagnosticSeverity.Warning,
+          code: "duplicate-definition"
+        })
+      }
+      defKeys.add(token.meta.key)
+      definitions.push({
+        key: token.meta.key,
+        raw: token.meta.raw,
+        title: token.meta.title,
+        href: token.meta.href,
+        line: token.map[0]
+      })
+    }
+    // Collect footnote definitions
+    if (token.type === "footnote_reference_open") {
+      const start = getLine(textDocument, token.map[0]).indexOf("[^") + 2
+      footnotes.push({
+        uri: textDocument.uri,
+        label: token.meta.label,
+        line: token.map[0],
+        range: {
+          start: { line: token.map[0], character: start },
+          end: { line: token.map[0], character: start + token.meta.label.length }
+        }
+      })
+    }
+    // Collect headings
+    if (token.type === "heading_open") {
+      headings.push({
+        uri: textDocument.uri,
+        name: tokens[i + 1]?.content || "",
+        level: parseInt(token.tag.slice(1)),
+        line: token.map[0]
+      })
+    }
+    // Collect heading anchors, up to the configured level
+    if (
+      token.type === "heading_open" &&
+      parseInt(token.tag.slice(1)) <= config.parsing.heading_anchors
+    ) {
+      let slug = slugify(tokens[i + 1]?.content || "")
+      // ensure the slug is unique within the document
+      const count = slugs.get(slug) || 0
+      slugs.set(slug, count + 1)
+      if (count) {
+        slug = `${slug}-${count}`
+      }
+      const text = getLine(textDocument, token.map[0]).trimEnd()
+      const start = (text.match(/^\s*(#{1,6}\s+)?/) || [""])[0].length
+      targets.push({
+        name: slug,
+        uri: textDocument.uri,
+        line: token.map[0],
+        range: {
+          start: { line: token.map[0], character: start },
+          end: { line: token.map[0], character: text.length }
+        },
+        type: "heading"
+      })
+    }
+    // Collect possible targets: targets above blocks, and `name` options for directives
+    if (token.type === "myst_target") {
+      const start = getLine(textDocument, token.map[0]).indexOf("(") + 1
+      targets.push({
+        name: token.content,
+        uri: textDocument.uri,
+        line: token.map[0],
+        range: {
+          start: { line: token.map[0], character: start },
+          end: { line: token.map[0], character: start + token.content.length }
+        },
+        type: "target"
+      })
+    }
+    // Collect equation labels, e.g. `$$ ... $$ (label)`
+    if (token.type === "math_block" && token.info) {
+      const line = token.map[1] - 1
+      const text = getLine(textDocument, line)
+      const start = text.lastIndexOf(`(${token.info})`) + 1
+      targets.push({
+        name: token.info,
+        uri: textDocument.uri,
+        line,
+        range: {
+          start: { line, character: start },
+          end: { line, character: start + token.info.length }
+        },
+        type: "equation"
+      })
+    }
+    if (token.type === "math_block" && !token.meta.closed) {
+      diagnostics.push({
+        range: {
+          start: { line: token.map[0], character: 0 },
+          end: {
+            line: token.map[0],
+            character: getLine(textDocument, token.map[0]).trimEnd().length
+          }
+        },
+        message: "Unbalanced math block: missing closing `$$`",
+        severity: DiagnosticSeverity.Error,
+        code: "unbalanced-math"
+      })
+    }
+    if (
+      token.type === "div_open" &&
+      token.info.trim().match(/^{math}/) &&
+      token.meta?.options?.label
+    ) {
+      targets.push({
+        name: token.meta.options.label,
+        uri: textDocument.uri,
+        line: token.map[0],
+        range: optionRange(
+          textDocument,
+          token.meta.optMap[0],
+          token.meta.optMap[1],
+          "label"
+        ),
+        type: "equation"
+      })
+    }
+    if (token.type === "div_open" && token.info.trim().match(/^{glossary}/)) {
+      const start = token.meta?.optMap ? token.meta.optMap[1] + 1 : token.map[0] + 1
+      targets.push(...glossaryTargets(textDocument, start, token.map[1]))
+    }
+    if (token.type === "div_open" && token.meta?.options?.name) {
+      targets.push({
+        name: token.meta.options.name,
+        uri: textDocument.uri,
+        line: token.map[0],
+        range: optionRange(
+          textDocument,
+          token.meta.optMap[0],
+          token.meta.optMap[1],
+          "name"
+        ),
+        type: "name"
+      })
+    }
+    // TODO move into a markdown-it plugin?
+    if (token.type === "fence" && token.info.match(/^{[^}]+}/)) {
+      const lines = token.content.split("\n")
+      const opts = parseDirectiveOptions(lines)
+      if (opts.options?.name) {
+        targets.push({
+          name: opts.options.name,
+          uri: textDocument.uri,
+          line: token.map[0],
+          range: optionRange(
+            textDocument,
+            token.map[0] + 1,
+            token.map[0] + opts.numLines,
+            "name"
+          ),
+          type: "name"
+        })
+      }
+      if (token.info.match(/^{glossary}/)) {
+        // the content is between the options and the closing fence
+        const start = token.map[0] + 1 + opts.numLines
+        targets.push(...glossaryTargets(textDocument, start, token.map[1] - 1))
+      }
+      if (token.info.match(/^{math}/) && opts.options?.label) {
+        targets.push({
+          name: opts.options.label,
+          uri: textDocument.uri,
+          line: token.map[0],
+          range: optionRange(
+            textDocument,
+            token.map[0] + 1,
+            token.map[0] + opts.numLines,
+            "label"
+          ),
+          type: "equation"
+        })
+      }
+      diagnostics.push(
+        ...directiveDiagnostics(
+          textDocument,
+          token.map[0],
+          token.info,
+          opts.numLines ? [token.map[0] + 1, token.map[0] + opts.numLines] : null,
+          opts.options,
+          opts.error,
+          lines.slice(opts.numLines).some(line => line.trim()),
+          config.parsing.directives
+        )
+      )
+    }
+    if (token.type === "div_open" && token.info.trim().match(/^{[^}]+}/)) {
+      diagnostics.push(
+        ...directiveDiagnostics(
+          textDocument,
+          token.map[0],
+          token.info.trim(),
+          token.meta?.optMap || null,
+          token.meta?.options || null,
+          token.meta?.optError || null,
+          tokens[i + 1]?.type !== "div_close",
+          config.parsing.directives
+        )
+      )
+    }
+    // record the lines containing inline text, to search for references
+    if (token.type === "inline") {
+      for (let j = token.map[0]; j < token.map[1]; j++) {
+        inlineLines.add(j)
+      }
+    }
+
+    // loop through all lines the token spans, for referencing later by cursor position
+    for (let j = token.map[0]; j < token.map[1]; j++) {
+      if (lineToTokenIndex[j] === undefined) {
+        lineToTokenIndex[j] = []
+      }
+      lineToTokenIndex[j].push(i)
+    }
+  }
+  // Collect references to targets and definitions, and check role names
+  const references: IReferenceData[] = []
+  for (const line of inlineLines) {
+    const text = getLine(textDocument, line)
+    for (const span of parseCodeSpans(text)) {
+      const name = span.role
+      if (name && !Object.prototype.hasOwnProperty.call(roleDict, name)) {
+        const start = span.start + 1
+        diagnostics.push({
+          range: {
+            start: { line, character: start },
+            end: { line, character: start + name.length }
+          },
+          message: `Unknown role: ${name}`,
+          severity: DiagnosticSeverity.Warning,
+          code: "unknown-role"
+        })
+      }
+    }
+    for (const ref of parseLineReferences(text)) {
+      references.push({
+        uri: textDocument.uri,
+        name: ref.name,
+        range: {
+          start: { line, character: ref.start },
+          end: { line, character: ref.end }
+        },
+        type: ref.type,
+        ...(ref.shortcut ? { shortcut: true } : {})
+      })
+    }
+  }
+  return {
+    tokens,
+    lineToTokenIndex,
+    definitions,
+    footnotes,
+    targets,
+    references,
+    headings,
+    substitutions,
+    diagnostics
+  }
+}
+
+/** Read a text or notebook file from disk, and parse its index data
+ *
+ * @param file The path of the file
+ * @param config The configuration to parse with
+ * @param notebook Whether the file is a Jupyter notebook
+ * @param cellUris Whether notebook cells are identified by their own (VS Code style) uri,
+ *   rather than that of the notebook
+ */
+export function parseFile(
+  file: string,
+  config: ServerConfig,
+  notebook: boolean,
+  cellUris = false
+): IFileIndex {
+  const content = fs.readFileSync(file, "utf-8")
+  const fileUri = URI.file(file)
+  const index: IFileIndex = {
+    documents: [{ uri: fileUri.toString() }],
+    targets: [],
+    references: [],
+    headings: []
+  }
+  let cells = [{ cell_type: "markdown", source: [content] }]
+  if (notebook) {
+    cells = JSON.parse(content).cells as {
+      cell_type: string
+      source: string[]
+    }[]
+  }
+  cells.forEach((cell, cellIndex) => {
+    if (cell.cell_type === "markdown") {
+      let uri = fileUri
+      if (notebook && cellUris) {
+        // see: https://github.com/microsoft/language-server-protocol/issues/1399
+        uri = cellUriGenerate(fileUri, cellIndex)
+      }
+      const doc = TextDocument.create(
+        uri.toString(),
+        "markdown",
+        0,
+        cell.source.join("")
+      )
+      const data = parseTextDocument(doc, config)
+      index.targets.push(...data.targets)
+      index.references.push(...data.references)
+      index.headings.push(...data.headings)
+    }
+  })
+  return index
+}
+
+/** Create diagnostics for a directive, validated against its specification
+ *
+ * @param line The first line of the directive
+ * @param info The directive info, e.g. `{name} arguments`
+ * @param optMap The first and last line of the directive options (if present)
+ * @param options The parsed directive options
+ * @param optError An error from parsing the directive options
+ * @param hasContent Whether the directive has content (after the options)
+ * @param extraNames Directive names from the configuration, which are not validated
+ */
+function directiveDiagnostics(
+  doc: TextDocument,
+  line: number,
+  info: string,
+  optMap: [number, number] | null,
+  options: { [key: string]: any } | null,
+  optError: string | null,
+  hasContent: boolean,
+  extraNames: string[]
+): Diagnostic[] {
+  const match = info.match(/^{([^}]+)}\s*(.*)$/)
+  if (!match) {
+    return []
+  }
+  const name = match[1]
+  const nameStart = getLine(doc, line).indexOf(`{${name}}`) + 1
+  const nameRange = {
+    start: { line, character: nameStart },
+    end: { line, character: nameStart + name.length }
+  }
+  const diagnostics: Diagnostic[] = []
+  if (optError && optMap) {
+    diagnostics.push({
+      range: {
+        start: { line: optMap[0], character: 0 },
+        end: { line: optMap[1], character: 1000 }
+      },
+      message: `Invalid directive options: ${optError.split("\n")[0]}`,
+      severity: DiagnosticSeverity.Error,
+      code: "invalid-options"
+    })
+  }
+  const dict: { [key: string]: any } = dirDict
+  const spec = Object.prototype.hasOwnProperty.call(dict, name) ? dict[name] : null
+  if (!spec && extraNames.includes(name)) {
+    return diagnostics
+  }
+  if (!spec) {
+    diagnostics.push({
+      range: nameRange,
+      message: `Unknown directive: ${name}`,
+      severity: DiagnosticSeverity.Warning,
+      code: "unknown-directive"
+    })
+    return diagnostics
+  }
+  for (const problem of validateDirective(spec, match[2], options, hasContent)) {
+    let range: Range = nameRange
+    if (problem.option && optMap) {
+      // highlight the whole option, i.e. `:key: value`
+      range = optionRange(doc, optMap[0], optMap[1], problem.option)
+      range = { start: { line: range.start.line, character: 0 }, end: range.end }
+    }
+    diagnostics.push({
+      range,
+      message: problem.message,
+      severity: DiagnosticSeverity.Error,
+      code: problem.option ? "unknown-option" : "invalid-directive"
+    })
+  }
+  return diagnostics
+}
+
+/** Create targets for the terms of a glossary directive, within a range of lines */
+function glossaryTargets(
+  doc: TextDocument,
+  startLine: number,
+  endLine: number
+): ITargetData[] {
+  const lines: string[] = []
+  for (let line = startLine; line < endLine; line++) {
+    lines.push(getLine(doc, line).replace(/\r?\n$/, ""))
+  }
+  const targets: ITargetData[] = []
+  for (const entry of parseGlossary(lines)) {
+    for (const term of entry.terms) {
+      const line = startLine + term.line
+      targets.push({
+        // terms are case-insensitive, as in Sphinx
+        name: term.text.toLowerCase(),
+        text: term.text,
+        uri: doc.uri,
+        line,
+        range: {
+          start: { line, character: term.column },
+          end: { line, character: term.column + term.text.length }
+        },
+        type: "term",
+        content: entry.definition
+      })
+    }
+  }
+  return targets
+}
+
+/** Find the range of a directive option value, e.g. `:name: value` */
+function optionRange(
+  doc: TextDocument,
+  startLine: number,
+  endLine: number,
+  key: string
+): Range {
+  const escaped = key.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+  const regex = new RegExp(`^(\\s*:?${escaped}:\\s*)(["']?)(.*?)\\2\\s*$`)
+  for (let line = startLine; line <= endLine; line++) {
+    const match = getLine(doc, line).match(regex)
+    if (match) {
+      const start = match[1].length + match[2].length
+      return {
+        start: { line, character: start },
+        end: { line, character: start + match[3].length }
+      }
+    }
+  }
+  return {
+    start: { line: startLine, character: 0 },
+    end: { line: startLine, character: 0 }
+  }
+}
+
+const _lengths = ["W", "X", "Y", "Z", "a", "b", "c", "d", "e", "f"]
+const _radix = 7
+
+/** adapted from https://github.com/microsoft/vscode/blob/990cc855de8b8b695b6acc086006904caa35434d/src/vs/workbench/contrib/notebook/common/notebookCommon.ts */
+export function cellUriGenerate(notebook: URI, index: number): URI {
+  const s = index.toString(_radix)
+  const p = s.length < _lengths.length ? _lengths[s.length - 1] : "z"
+
+  const fragment = `${p}${s}s${Buffer.from(notebook.scheme).toString("base64")}`
+  return notebook.with({ scheme: "vscode-notebook-cell", fragment })
+}
@@ -0,0 +1,641 @@
+import glob from "fast-glob"
+import fs from "fs"
+import micromatch from "micromatch"
+import path from "path"
+import url from "url"
+import {
+  Diagnostic,
+  DiagnosticSeverity,
+  Disposable,
+  FileChangeType,
+  FileEvent,
+  Location
+} from "vscode-languageserver"
+import { TextDocument } from "vscode-languageserver-textdocument"
+import { URI } from "vscode-uri"
+
+import { ICitationData, parseBibtex } from "./bibtex"
+import { CONFIG_FILE, defaultConfig, ServerConfig } from "./config"
+import { DocCache, projectDatabase } from "./database"
+import { isOrphan, substitutionText, yamlPathLine } from "./frontmatter"
+import { hashConfig, ICachedFile, loadIndexCache, saveIndexCache } from "./indexCache"
+import { IFileIndex, ISubstitutionData, ITargetData, parseFile } from "./parser"
+import { isFilePath, isUrl, LINK_TARGET_TYPES } from "./referenceUtils"
+import { ROLE_TARGET_TYPES } from "./roleUtils"
+import { ITocEntry, parseToc, TOC_FILE } from "./toc"
+
+/** The open documents and projects of a language server, for its request handlers */
+export interface IWorkspace {
+  cache: DocCache
+  getDocument(uri: string): TextDocument | undefined
+  getProject(uri: string): MystProject
+}
+
+/** The substitutions of a configuration, with their lines in the configuration file */
+interface IConfigSubstitutions {
+  config: ServerConfig
+  /** the uri of the configuration file, or null if there is none */
+  uri: string | null
+  substitutions: Omit<ISubstitutionData, "uri">[]
+}
+
+/** A project of MyST documents, i.e. a workspace folder,
+ * with its own configuration and index of all documents
+ */
+export class MystProject {
+  /** the uri of the project folder, or null for documents outside of any folder */
+  rootUri: string | null
+  // the current configuration, based on defaults and user settings
+  config: ServerConfig
+  // the database stores data for the whole project
+  db: projectDatabase
+  // the entries of the bibliography files, by key
+  citations: Map<string, ICitationData>
+  // the table of contents, from `_toc.yml` or `myst.yml`, if either has one,
+  // with the resolved file of each entry (null for globs and missing files)
+  toc: { uri: string; entries: ITocEntry[]; paths: (string | null)[] } | null
+  // the substitutions of the configuration, with their lines in the configuration file,
+  // found once for each loaded configuration
+  private configSubstitutions: IConfigSubstitutions | null = null
+
+  constructor(rootUri: string | null, config: ServerConfig = defaultConfig()) {
+    this.rootUri = rootUri
+    this.config = config
+    this.db = new projectDatabase()
+    this.citations = new Map()
+    this.toc = null
+  }
+
+  /** Load the entries of the bibliography files of the configuration,
+   * replacing any existing ones (the first entry of a key is used)
+   *
+   * @param onWarning Called if a file cannot be read
+   */
+  loadBibliography(onWarning?: (message: string) => void): void {
+    this.citations.clear()
+    if (!this.rootUri?.startsWith("file://")) {
+      return
+    }
+    const rootPath = url.fileURLToPath(this.rootUri)
+    for (const file of this.config.files.bibliography) {
+      const filePath = path.resolve(rootPath, file)
+      let text: string
+      try {
+        text = fs.readFileSync(filePath, "utf8")
+      } catch (e) {
+        onWarning?.(`Reading bibliography failed: ${e}`)
+        continue
+      }
+      const doc = TextDocument.create(URI.file(filePath).toString(), "bibtex", 0, text)
+      for (const entry of parseBibtex(text)) {
+        if (!this.citations.has(entry.key)) {
+          this.citations.set(entry.key, {
+            ...entry,
+            uri: doc.uri,
+            range: {
+              start: doc.positionAt(entry.offset),
+              end: doc.positionAt(entry.offset + entry.key.length)
+            }
+          })
+        }
+      }
+    }
+  }
+
+  /** Find all text and notebook files of the project, according to the configuration */
+  async globFiles(): Promise<{ text: string[]; jupyter: string[] }> {
+    if (!this.rootUri?.startsWith("file://")) {
+      throw new Error("Only local files are supported for project analysis")
+    }
+    const options = {
+      cwd: url.fileURLToPath(this.rootUri),
+      absolute: true,
+      ignore: this.config.files.ignore
+    }
+    return {
+      text: await glob(this.config.files.text, options),
+      jupyter: await glob(this.config.files.jupyter, options)
+    }
+  }
+
+  /** Get the glob patterns of the files to watch for changes, relative to the project root */
+  getWatchPatterns(): string[] {
+    return [
+      ...this.config.files.text,
+      ...this.config.files.jupyter,
+      ...this.config.files.bibliography,
+      TOC_FILE
+    ]
+  }
+
+  /** Check if a file, relative to the project root, is watched for changes,
+   * i.e. it matches the watched patterns and is not ignored, e.g. not in `.git/`
+   */
+  isWatchedFile(relPath: string): boolean {
+    return (
+      micromatch.isMatch(relPath, this.getWatchPatterns()) &&
+      !micromatch.isMatch(relPath, this.config.files.ignore)
+    )
+  }
+
+  /** Watch the project files for changes, with a recursive file system watcher,
+   * for clients which cannot watch files themselves
+   *
+   * @throws if recursive watching is not supported on the platform
+   */
+  watchFiles(onChange: (change: FileEvent) => void): Disposable {
+    if (!this.rootUri?.startsWith("file://")) {
+      throw new Error("Only local files can be watched")
+    }
+    const rootPath = url.fileURLToPath(this.rootUri)
+    const watcher = fs.watch(rootPath, { recursive: true }, (event, filename) => {
+      const relPath = filename?.toString().split(path.sep).join("/")
+      if (!relPath || !this.isWatchedFile(relPath)) {
+        return
+      }
+      const filePath = path.join(rootPath, relPath)
+      onChange({
+        uri: URI.file(filePath).toString(),
+        type: !fs.existsSync(filePath)
+          ? FileChangeType.Deleted
+          : event === "rename"
+          ? FileChangeType.Created
+          : FileChangeType.Changed
+      })
+    })
+    return { dispose: () => watcher.close() }
+  }
+
+  /** Check if a document is a file which can contain the table of contents of the project,
+   * i.e. `_toc.yml` or `myst.yml` in the project root
+   */
+  isTocDocument(uri: string): boolean {
+    if (!this.rootUri?.startsWith("file://")) {
+      return false
+    }
+    const filePath = URI.parse(uri).fsPath
+    return [TOC_FILE, CONFIG_FILE].some(
+      file => path.join(url.fileURLToPath(this.rootUri as string), file) === filePath
+    )
+  }
+
+  /** Get the path of the file which contains the table of contents, if any:
+   * `_toc.yml`, otherwise `myst.yml` (which may not have a `toc` section)
+   */
+  getTocPath(): string | null {
+    if (!this.rootUri?.startsWith("file://")) {
+      return null
+    }
+    for (const file of [TOC_FILE, CONFIG_FILE]) {
+      const filePath = path.join(url.fileURLToPath(this.rootUri), file)
+      if (fs.existsSync(filePath)) {
+        return filePath
+      }
+    }
+    return null
+  }
+
+  /** Load the table of contents from disk, replacing any existing one
+   *
+   * @param onWarning Called if the file cannot be read
+   */
+  loadToc(onWarning?: (message: string) => void): void {
+    this.toc = null
+    const tocPath = this.getTocPath()
+    if (!tocPath) {
+      return
+    }
+    try {
+      this.setToc(URI.file(tocPath).toString(), fs.readFileSync(tocPath, "utf8"))
+    } catch (e) {
+      onWarning?.(`Reading table of contents failed: ${e}`)
+    }
+  }
+
+  /** Set the table of contents, from the content of a `_toc.yml` or `myst.yml` file */
+  setToc(uri: string, text: string): void {
+    const entries = parseToc(text, path.basename(URI.parse(uri).fsPath) === CONFIG_FILE)
+    this.toc = entries ? { uri, entries, paths: [] } : null
+    this.resolveToc()
+  }
+
+  /** Resolve the files of the table of contents entries, so that they are not looked up
+   * for every document; this is required again if project files are created or deleted
+   */
+  resolveToc(): void {
+    if (this.toc) {
+      this.toc.paths = this.toc.entries.map(entry =>
+        entry.type === "file" ? this.resolveTocPath(entry.path) : null
+      )
+    }
+  }
+
+  /** Resolve the path of a table of contents entry, which may omit the file extension
+   *
+   * @returns null if no such file exists
+   */
+  resolveTocPath(tocPath: string): string | null {
+    if (!this.rootUri?.startsWith("file://")) {
+      return null
+    }
+    const filePath = path.join(url.fileURLToPath(this.rootUri), tocPath)
+    for (const extension of ["", ".md", ".ipynb", ".rst"]) {
+      if (
+        fs.existsSync(filePath + extension) &&
+        fs.statSync(filePath + extension).isFile()
+      ) {
+        return filePath + extension
+      }
+    }
+    return null
+  }
+
+  /** Get the position of a file in the table of contents
+   *
+   * @returns the index of its entry, or -1 if it is not listed
+   */
+  getTocIndex(filePath: string): number {
+    if (!this.toc || !this.rootUri?.startsWith("file://")) {
+      return -1
+    }
+    const relPath = path
+      .relative(url.fileURLToPath(this.rootUri), filePath)
+      .split(path.sep)
+      .join("/")
+    const withoutExtension = relPath.slice(
+      0,
+      relPath.length - path.extname(relPath).length
+    )
+    const paths = this.toc.paths
+    return this.toc.entries.findIndex((entry, index) =>
+      entry.type === "glob"
+        ? micromatch.isMatch(relPath, entry.path) ||
+          micromatch.isMatch(withoutExtension, entry.path)
+        : paths[index] === filePath
+    )
+  }
+
+  /** Get the title of a document, i.e. its first heading of the highest level */
+  getDocumentTitle(uri: string): string | null {
+    return this.db.getTitle(URI.parse(uri).fsPath)
+  }
+
+  /** Create diagnostics for the table of contents, for entries whose file does not exist */
+  getTocFileDiagnostics(): Diagnostic[] {
+    const diagnostics: Diagnostic[] = []
+    const paths = this.toc?.paths || []
+    for (const [index, entry] of (this.toc?.entries || []).entries()) {
+      if (entry.type === "file" && !paths[index]) {
+        diagnostics.push({
+          range: entry.range,
+          message: `File not found: ${entry.path}`,
+          severity: DiagnosticSeverity.Warning,
+          code: "file-not-found"
+        })
+      }
+    }
+    return diagnostics
+  }
+
+  /** Create diagnostics for a cached text document, if it is not in the table of contents,
+   * and not marked as an orphan in its front matter
+   */
+  getTocDiagnostics(cache: DocCache, uri: string): Diagnostic[] {
+    const docUri = URI.parse(uri)
+    const token = cache.getData(uri)?.tokens[0]
+    if (
+      !this.toc ||
+      docUri.scheme !== "file" ||
+      this.getTocIndex(docUri.fsPath) >= 0 ||
+      (token?.type === "front_matter" && isOrphan(token))
+    ) {
+      return []
+    }
+    return [
+      {
+        range: { start: { line: 0, character: 0 }, end: { line: 0, character: 0 } },
+        message: `Document is not included in the table of contents: ${path.basename(
+          URI.parse(this.toc.uri).fsPath
+        )}`,
+        severity: DiagnosticSeverity.Warning,
+        code: "orphan-document"
+      }
+    ]
+  }
+
+  /** Index all files of the project, replacing any existing data, and load its bibliography.
+   * Files which have not been modified since the last indexing are loaded from the on-disk cache,
+   * which is discarded if the parsing configuration has changed.
+   *
+   * @param options.cellUris Whether notebook cells are identified by their own (VS Code style) uri
+   * @param options.onProgress Called before each file is indexed, with the percentage complete
+   * @param options.onWarning Called if reading or writing the cache, the bibliography
+   *   or the table of contents fails
+   * @returns The number of text and notebook files, and how many of them were parsed
+   */
+  async index(
+    options: {
+      cellUris?: boolean
+      onProgress?: (percentage: number) => void
+      onWarning?: (message: string) => void
+    } = {}
+  ): Promise<{ text: number; jupyter: number; parsed: number }> {
+    const files = await this.globFiles()
+    const rootPath = url.fileURLToPath(this.rootUri as string)
+    this.loadBibliography(options.onWarning)
+    this.loadToc(options.onWarning)
+    const allFiles = [...files.text, ...files.jupyter]
+
+    // substitutions are not part of the index, so do not invalidate it
+    const configHash = hashConfig({
+      parsing: {
+        extensions: this.config.parsing.extensions,
+        heading_anchors: this.config.parsing.heading_anchors
+      },
+      cellUris: !!options.cellUris
+    })
+    let cached = new Map<string, ICachedFile<IFileIndex>>()
+    try {
+      cached = loadIndexCache<IFileIndex>(rootPath, configHash)
+    } catch (e) {
+      options.onWarning?.(`Reading index cache failed: ${e}`)
+    }
+    const entries = new Map<string, ICachedFile<IFileIndex>>()
+    let parsed = 0
+
+    this.db.clear()
+    for (const [index, file] of allFiles.entries()) {
+      options.onProgress?.((index / allFiles.length) * 100)
+      const mtime = fs.statSync(file).mtimeMs
+      let entry = cached.get(file)
+      if (!entry || entry.mtime !== mtime) {
+        const notebook = index >= files.text.length
+        entry = {
+          mtime,
+          data: parseFile(file, this.config, notebook, options.cellUris)
+        }
+        parsed += 1
+      }
+      entries.set(file, entry)
+      this.db.insertFile(entry.data)
+    }
+
+    if (parsed || entries.size !== cached.size) {
+      try {
+        saveIndexCache(rootPath, configHash, entries)
+      } catch (e) {
+        options.onWarning?.(`Writing index cache failed: ${e}`)
+      }
+    }
+    return { text: files.text.length, jupyter: files.jupyter.length, parsed }
+  }
+
+  /** Create diagnostics for references in a cached document,
+   * which do not point to a known target, definition, footnote or file,
+   * and footnote definitions which are not referenced
+   *
+   * @param cache The cache containing the parsed document (and any related notebook cells)
+   * @param uri The uri of the document
+   * @param doc The document, used to show the original text of unknown definitions
+   */
+  getReferenceDiagnostics(
+    cache: DocCache,
+    uri: string,
+    doc?: TextDocument
+  ): Diagnostic[] {
+    const diagnostics: Diagnostic[] = []
+    const defKeys = new Set([...cache.iterDefs(uri)].map(def => def.key))
+    const footnoteLabels = new Set([...cache.iterFootnotes(uri)].map(fn => fn.label))
+    const substitutionNames = new Set([
+      ...[...cache.iterSubstitutions(uri)].map(sub => sub.name),
+      ...Object.keys(this.config.parsing.substitutions)
+    ])
+    for (const ref of cache.getData(uri)?.refs || []) {
+      let message: string | null = null
+      let code = "unknown-target"
+      if (ref.type === "definition") {
+        // without a definition, a shortcut reference is just text, e.g. `[sic]` or `- [x]`
+        if (!defKeys.has(ref.name) && !ref.shortcut) {
+          message = `Unknown definition: ${doc?.getText(ref.range) || ref.name}`
+          code = "unknown-definition"
+        }
+      } else if (ref.type === "footnote") {
+        if (!footnoteLabels.has(ref.name)) {
+          message = `Unknown footnote: ${ref.name}`
+          code = "unknown-footnote"
+        }
+      } else if (ref.type === "cite") {
+        // keys can only be checked if the bibliography is configured
+        if (this.config.files.bibliography.length && !this.citations.has(ref.name)) {
+          message = `Unknown citation key: ${ref.name}`
+          code = "unknown-citation"
+        }
+      } else if (ref.type === "link") {
+        if (isUrl(ref.name) || this.getLinkTargets(uri, ref.name).length) {
+          continue
+        }
+        if (isFilePath(ref.name)) {
+          const filePath = this.resolveFilePath(uri, ref.name)
+          if (filePath !== null && !fs.existsSync(filePath)) {
+            message = `File not found: ${ref.name}`
+            code = "file-not-found"
+          } else if (
+            // an empty anchor is not checked, e.g. while it is being typed
+            ref.name.split("#")[1] &&
+            this.config.parsing.heading_anchors &&
+            (filePath === null
+              ? ref.name.startsWith("#")
+              : this.db.hasDocument(URI.file(filePath).toString()))
+          ) {
+            // only anchors in indexed documents can be checked
+            message = `Unknown heading anchor: ${ref.name}`
+            code = "unknown-anchor"
+          }
+        } else {
+          message = `Unknown target: ${ref.name}`
+        }
+      } else if (ref.type === "substitution") {
+        if (
+          this.config.parsing.extensions.includes("substitution") &&
+          !substitutionNames.has(ref.name) &&
+          // the Sphinx environment is available to all substitutions
+          ref.name !== "env"
+        ) {
+          message = `Unknown substitution: ${ref.name}`
+          code = "unknown-substitution"
+        }
+      } else if (ROLE_TARGET_TYPES[ref.type]) {
+        if (!this.db.getTargets(ref.name, ROLE_TARGET_TYPES[ref.type]).length) {
+          message =
+            ref.type === "term"
+              ? `Unknown glossary term: ${doc?.getText(ref.range) || ref.name}`
+              : `Unknown target: ${ref.name}`
+        }
+      }
+      if (message) {
+        diagnostics.push({
+          range: ref.range,
+          message,
+          severity: DiagnosticSeverity.Warning,
+          code,
+          // the reference type, to find alternative targets
+          data: { type: ref.type }
+        })
+      }
+    }
+    // footnotes can be referenced from any cell of the same notebook
+    const referencedFootnotes = new Set(
+      cache
+        .getRelatedUris(uri)
+        .flatMap(relatedUri => cache.getData(relatedUri)?.refs || [])
+        .filter(ref => ref.type === "footnote")
+        .map(ref => ref.name)
+    )
+    for (const footnote of cache.getData(uri)?.footnotes || []) {
+      if (!referencedFootnotes.has(footnote.label)) {
+        diagnostics.push({
+          range: footnote.range,
+          message: `Unused footnote: ${footnote.label}`,
+          severity: DiagnosticSeverity.Warning,
+          code: "unused-footnote"
+        })
+      }
+    }
+    return diagnostics
+  }
+
+  /** Get the substitutions available to a cached document:
+   * those of its front matter, which override those of the project configuration
+   */
+  getSubstitutions(cache: DocCache, uri: string): Map<string, ISubstitutionData> {
+    const substitutions = new Map<string, ISubstitutionData>()
+    const config = this.getConfigSubstitutions()
+    for (const substitution of config.substitutions) {
+      substitutions.set(substitution.name, { ...substitution, uri: config.uri || uri })
+    }
+    for (const substitution of cache.iterSubstitutions(uri)) {
+      substitutions.set(substitution.name, substitution)
+    }
+    return substitutions
+  }
+
+  /** Get the substitutions of the configuration, finding their lines in the
+   * configuration file (if it exists) only when the configuration has changed
+   */
+  private getConfigSubstitutions(): IConfigSubstitutions {
+    if (this.configSubstitutions?.config === this.config) {
+      return this.configSubstitutions
+    }
+    const entries = Object.entries(this.config.parsing.substitutions)
+    const configPath =
+      entries.length && this.rootUri
+        ? path.join(URI.parse(this.rootUri).fsPath, CONFIG_FILE)
+        : null
+    const lines =
+      configPath && fs.existsSync(configPath)
+        ? fs.readFileSync(configPath, "utf8").split(/\r?\n/)
+        : []
+    this.configSubstitutions = {
+      config: this.config,
+      uri: configPath ? URI.file(configPath).toString() : null,
+      substitutions: entries.map(([name, value]) => ({
+        name,
+        value: substitutionText(value),
+        line: Math.max(yamlPathLine(lines, ["parsing", "substitutions", name]), 0)
+      }))
+    }
+    return this.configSubstitutions
+  }
+
+  /** Find the targets that a link points to, either a target name,
+   * or a heading anchor, e.g. `#anchor` or `other.md#anchor`
+   */
+  getLinkTargets(uri: string, link: string): ITargetData[] {
+    const hashIndex = link.indexOf("#")
+    if (hashIndex < 0) {
+      return this.db.getTargets(link, LINK_TARGET_TYPES)
+    }
+    // anchors without a path are in the same document (or notebook)
+    const filePath = hashIndex ? this.resolveFilePath(uri, link) : URI.parse(uri).fsPath
+    return this.db
+      .getTargets(link.slice(hashIndex + 1), ["heading"])
+      .filter(target => URI.parse(target.uri).fsPath === filePath)
+  }
+
+  /** Get the location of a file path, relative to the document it is referenced in,
+   * and optionally the heading of a `#anchor` within it
+   */
+  getFileLocation(uri: string, link: string): Location | null {
+    const filePath = this.resolveFilePath(uri, link)
+    if (!filePath || !fs.existsSync(filePath) || !fs.statSync(filePath).isFile()) {
+      return null
+    }
+    const location = {
+      uri: URI.file(filePath).toString(),
+      range: { start: { line: 0, character: 0 }, end: { line: 0, character: 0 } }
+    }
+    // anchors are resolved like link targets, e.g. with suffixes for duplicate headings
+    const heading = link.split("#")[1] ? this.getLinkTargets(uri, link)[0] : null
+    if (heading) {
+      location.uri = heading.uri
+      location.range = {
+        start: { line: heading.line, character: 0 },
+        end: { line: heading.line, character: 0 }
+      }
+    }
+    return location
+  }
+
+  /** Get the location of a document, referenced by its path without extension,
+   * e.g. {doc}`../other`
+   */
+  getDocLocation(uri: string, docPath: string): Location | null {
+    const filePath = this.resolveFilePath(uri, docPath)
+    if (!filePath) {
+      return null
+    }
+    for (const document of this.db.iterDocuments()) {
+      const documentPath = URI.parse(document.uri).fsPath
+      if (
+        documentPath.slice(
+          0,
+          documentPath.length - path.extname(documentPath).length
+        ) === filePath
+      ) {
+        return {
+          uri: document.uri,
+          range: { start: { line: 0, character: 0 }, end: { line: 0, character: 0 } }
+        }
+      }
+    }
+    return this.getFileLocation(uri, docPath)
+  }
+
+  /** Resolve a file path, relative to the document it is referenced in
+   *
+   * @returns null if the path cannot be resolved to a local file
+   */
+  resolveFilePath(uri: string, link: string): string | null {
+    const linkPath = link.split(/[?#]/)[0]
+    if (!linkPath) {
+      return null
+    }
+    // notebook cells share the path of their notebook
+    const docUri = URI.parse(uri)
+    if (docUri.scheme !== "file" && docUri.scheme !== "vscode-notebook-cell") {
+      return null
+    }
+    let decoded = linkPath
+    try {
+      decoded = decodeURIComponent(linkPath)
+    } catch (e) {
+      // use the undecoded path
+    }
+    if (decoded.startsWith("/")) {
+      // absolute paths are relative to the project root
+      const rootUri = this.rootUri
+      return rootUri ? path.join(url.fileURLToPath(rootUri), decoded) : null
+    }
+    return path.resolve(path.dirname(docUri.fsPath), decoded)
+  }
+}
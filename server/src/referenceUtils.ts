@@ -0,0 +1,205 @@
+import { normalizeReference } from "markdown-it/lib/common/utils"
+
+/** Roles whose content references a target or file in the project */
+export const REFERENCE_ROLES = ["ref", "numref", "eq", "term", "doc", "download"]
+
+/** Target types which can be referenced by name in a link, e.g. `[text](name)` */
+export const LINK_TARGET_TYPES = ["target", "name"]
+
+/** Reference types which point to a target, i.e. a `myst_target` or directive `name` */
+export const TARGET_REFERENCE_TYPES = ["link", "ref", "numref"]
+
+/** Check if a role cites bibliography entries, e.g. `cite`, `cite:p` or `footcite:t` */
+export function isCiteRole(name: string): boolean {
+  return /^(foot)?cite(:|$)/.test(name)
+}
+
+/** Check if a link destination is a URL, e.g. `https://example.com` or `mailto:me@example.com` */
+export function isUrl(link: string): boolean {
+  return /^[a-zA-Z][a-zA-Z0-9+.-]*:\/\//.test(link) || /^(mailto|tel|data):/.test(link)
+}
+
+/** Check if a link destination looks like a file path, e.g. `./other.md` or `image.png` */
+export function isFilePath(link: string): boolean {
+  return (
+    /^\.{0,2}\//.test(link) ||
+    /\.[a-zA-Z0-9]+([?#].*)?$/.test(link) ||
+    link.includes("#")
+  )
+}
+
+/** A reference found within a single line of text */
+export interface ILineReference {
+  /** "link", "definition", "footnote", "substitution", "cite" or the name of the role, e.g. "ref" */
+  type: string
+  name: string
+  start: number
+  end: number
+  /** true for shortcut [label] and collapsed [label][] definition references,
+   * which are only text if there is no definition for them
+   */
+  shortcut?: boolean
+}
+
+/** replace a span of text with spaces, so that it is not matched again */
+function blank(text: string, start: number, end: number): string {
+  return text.slice(0, start) + " ".repeat(end - start) + text.slice(end)
+}
+
+/** A code span within a line of text, which is the content of a role if it follows its name */
+export interface ILineCodeSpan {
+  /** the name of the role, e.g. "ref" for {ref}`target` */
+  role?: string
+  /** the start of the span, including any role name */
+  start: number
+  /** the end of the span, after its closing backticks */
+  end: number
+  content: string
+  contentStart: number
+}
+
+/** Find the code spans within a line of inline text, e.g. `code` or ``co`de``,
+ * pairing backtick runs of the same length as in CommonMark,
+ * so that the content of a role cannot start inside another code span
+ */
+export function parseCodeSpans(line: string): ILineCodeSpan[] {
+  const spans: ILineCodeSpan[] = []
+  const runs = [...line.matchAll(/`+/g)]
+  for (let i = 0; i < runs.length; i++) {
+    const open = runs[i]
+    const closeIndex = runs.findIndex(
+      (run, index) => index > i && run[0].length === open[0].length
+    )
+    if (closeIndex < 0) {
+      // an unmatched run is literal text
+      continue
+    }
+    const close = runs[closeIndex]
+    const openStart = open.index || 0
+    const role = line.slice(0, openStart).match(/\{([a-zA-Z0-9:_-]+)\}$/)
+    const contentStart = openStart + open[0].length
+    spans.push({
+      ...(role ? { role: role[1] } : {}),
+      start: role ? openStart - role[0].length : openStart,
+      end: (close.index || 0) + close[0].length,
+      content: line.slice(contentStart, close.index),
+      contentStart
+    })
+    i = closeIndex
+  }
+  return spans
+}
+
+/** Find all references within a line of inline text:
+ * roles, e.g. {ref}`target` or {ref}`text <target>`,
+ * citations, e.g. {cite:p}`key1,key2`,
+ * substitutions, e.g. {{ name }} or {{ name | upper }},
+ * footnote references, e.g. [^label],
+ * links, e.g. [text](target) or [text](<target>),
+ * and definition references, e.g. [text][label], [label][] or [label]
+ */
+export function parseLineReferences(line: string): ILineReference[] {
+  const refs: ILineReference[] = []
+
+  // roles, and code spans which should not be searched
+  for (const { role, start, end, content, contentStart } of parseCodeSpans(line)) {
+    line = blank(line, start, end)
+    if (!role) {
+      continue
+    }
+    if (REFERENCE_ROLES.includes(role)) {
+      const explicit = content.match(/<([^<>]+)>\s*$/)
+      const name = explicit ? explicit[1] : content.trim()
+      const nameStart = explicit
+        ? contentStart + (explicit.index || 0) + 1
+        : contentStart + content.indexOf(name)
+      if (name) {
+        refs.push({
+          type: role,
+          // glossary terms are case-insensitive, as in Sphinx
+          name: role === "term" ? name.toLowerCase() : name,
+          start: nameStart,
+          end: nameStart + name.length
+        })
+      }
+    }
+    if (isCiteRole(role)) {
+      let partStart = contentStart
+      for (const part of content.split(",")) {
+        const key = part.trim()
+        if (key) {
+          const keyStart = partStart + part.indexOf(key)
+          refs.push({
+            type: "cite",
+            name: key,
+            start: keyStart,
+            end: keyStart + key.length
+          })
+        }
+        partStart += part.length + 1
+      }
+    }
+  }
+
+  // substitutions, where only the leading variable of the expression is a reference
+  for (const match of line.matchAll(/\{\{\s*([a-zA-Z_][\w-]*)[^{}]*\}\}/g)) {
+    const index = match.index || 0
+    const start = index + match[0].indexOf(match[1], 2)
+    refs.push({
+      type: "substitution",
+      name: match[1],
+      start,
+      end: start + match[1].length
+    })
+    line = blank(line, index, index + match[0].length)
+  }
+
+  // footnote references, but not the label of a footnote definition, e.g. [^label]: text
+  for (const match of line.matchAll(/\[\^([^\]\s]+)\](?!:)/g)) {
+    const index = match.index || 0
+    refs.push({
+      type: "footnote",
+      name: match[1],
+      start: index + 2,
+      end: index + 2 + match[1].length
+    })
+    line = blank(line, index, index + match[0].length)
+  }
+
+  // links
+  for (const match of line.matchAll(/\[[^\]]*\]\(\s*(?:<([^<>]*)>|([^()\s]*))/g)) {
+    const name = match[1] !== undefined ? match[1] : match[2]
+    const index = match.index || 0
+    if (name) {
+      const start = index + match[0].length - name.length - (match[1] ? 1 : 0)
+      refs.push({ type: "link", name, start, end: start + name.length })
+    }
+    line = blank(line, index, index + match[0].length)
+  }
+
+  // definition references: full [text][label], collapsed [label][] and shortcut [label]
+  for (const match of line.matchAll(/\[([^\]]+)\]\[([^\]]*)\]|\[([^\]]+)\](?![(:])/g)) {
+    const index = match.index || 0
+    let label: string
+    let start: number
+    const shortcut = !match[2]
+    if (match[2]) {
+      label = match[2]
+      start = index + match[1].length + 3
+    } else {
+      label = match[1] || match[3]
+      start = index + 1
+    }
+    if (normalizeReference(label)) {
+      refs.push({
+        type: "definition",
+        name: normalizeReference(label),
+        start,
+        end: start + label.length,
+        ...(shortcut ? { shortcut } : {})
+      })
+    }
+  }
+
+  return refs
+}
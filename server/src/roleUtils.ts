@@ -0,0 +1,60 @@
+import {
+  MarkupContent,
+  MarkupKind,
+  TextDocumentPositionParams
+} from "vscode-languageserver/node"
+import { TextDocument } from "vscode-languageserver-textdocument"
+
+import { matchPositionText } from "./utils"
+
+/** The target types which can be referenced by the content of a role */
+export const ROLE_TARGET_TYPES: { [key: string]: string[] } = {
+  ref: ["target", "name"],
+  numref: ["target", "name"],
+  eq: ["equation"],
+  term: ["term"]
+}
+
+/** Make a markdown description for a role
+ *
+ * @param name The name of the role, as used in MyST
+ * @param data The role data from roles.json
+ */
+export function makeRoleDescription(name: string, data: any): MarkupContent {
+  return {
+    value: `${data["description"]}\n\n\`\`\`\n{${name}}\`${data["content"]}\`\n\`\`\`\n\nFrom \`${data["module"]}\``,
+    kind: MarkupKind.Markdown
+  }
+}
+
+/** Match position in the text to a role name, e.g. {name}`content` */
+export function matchRoleName(
+  doc: TextDocument,
+  params: TextDocumentPositionParams
+): string | null {
+  const match = matchPositionText(
+    doc,
+    params.position,
+    /\{([a-zA-Z0-9:_-]*)$/,
+    /^([a-zA-Z0-9:_-]*)\}`/
+  )
+  if (match.before && match.after) {
+    return match.before[1] + match.after[1]
+  }
+  return null
+}
+
+/** Match the content of a role, upto the cursor, e.g. {name}`text <partial`
+ *
+ * @returns the role name, and the partial target (excluding any explicit title)
+ */
+export function matchRoleContent(
+  before: string
+): null | { name: string; partial: string } {
+  const match = before.match(/\{([a-zA-Z0-9:_-]+)\}`([^`]*)$/)
+  if (!match) {
+    return null
+  }
+  const explicit = match[2].match(/<([^<>]*)$/)
+  return { name: match[1], partial: explicit ? explicit[1] : match[2] }
+}
@@ -2,27 +2,28 @@
 /* --------------------------------------------------------------------------------------------
  * Licensed under the MIT License. See License file in the project root for license information.
  * ------------------------------------------------------------------------------------------ */
-import glob from "fast-glob"
 import fs from "fs"
-import yaml from "js-yaml"
-import { validate } from "jsonschema"
-import loki from "lokijs"
-import MarkdownIt from "markdown-it"
-import { normalizeReference } from "markdown-it/lib/common/utils"
-import Token from "markdown-it/lib/token"
-import frontMatterPlugin from "markdown-it-front-matter"
+import micromatch from "micromatch"
 import path from "path"
 import url from "url"
 import { NotebookDocumentChangeEvent } from "vscode-languageserver/lib/common/notebook"
 import {
   _Connection,
+  CodeAction,
+  CodeActionKind,
+  CodeActionParams,
   CompletionItem,
-  CompletionItemKind,
   createConnection,
   DefinitionParams,
-  Diagnostic,
-  DiagnosticSeverity,
+  DidChangeWatchedFilesNotification,
   DidChangeWatchedFilesParams,
+  Disposable,
+  DocumentFormattingParams,
+  DocumentLink,
+  DocumentLinkParams,
+  DocumentRangeFormattingParams,
+  DocumentSymbol,
+  DocumentSymbolParams,
   FileChangeType,
   FoldingRange,
   FoldingRangeParams,
@@ -33,186 +34,62 @@ import {
   Location,
   NotebookDocument,
   NotebookDocuments,
-  Position,
+  PrepareRenameParams,
   ProposedFeatures,
+  Range,
+  ReferenceParams,
+  RenameParams,
+  ResponseError,
   SemanticTokens,
   SemanticTokensParams,
+  SymbolInformation,
   TextDocumentChangeEvent,
   TextDocumentPositionParams,
   TextDocuments,
   TextDocumentSyncKind,
-  TextEdit
+  TextEdit,
+  WorkspaceEdit,
+  WorkspaceSymbolParams
 } from "vscode-languageserver/node"
 import { TextDocument } from "vscode-languageserver-textdocument"
 import { URI } from "vscode-uri"
 
-import * as configSchema from "./config.schema.json"
-import * as dirDict from "./directives.json"
+import { getQuickFixes, getRefactorActions } from "./codeActions"
+import { getCompletions, resolveCompletion } from "./completion"
+import { CONFIG_FILE, mergeConfig, readConfigFile, ServerConfig } from "./config"
+import { DocCache } from "./database"
+import { formatDocument } from "./formatter"
+import { getHover } from "./hover"
 import {
-  makeDescription,
-  matchDirectiveName,
-  matchDirectiveStart
-} from "./directiveUtils"
-import { definitionPlugin } from "./mditPlugins/defintions"
-import { mystBlocksPlugin } from "./mditPlugins/mystBlocks"
-import { mystDivPlugin } from "./mditPlugins/mystDiv"
-import * as roleDict from "./roles.json"
-import { getLine, matchReferenceDefinition, matchReferenceLink } from "./utils"
-
-interface ServerConfig {
-  files: {
-    text: string[]
-    jupyter: string[]
-    ignore: string[]
-  }
-  parsing: {
-    /** Markdown-it extensions */
-    extensions: string[]
-  }
-  lsp: {
-    /** The tokens to apply folding to */
-    foldingTokens: string[]
-  }
-}
-
-interface ITargetData {
-  uri: string
-  name: string
-  line: number
-  type: string
-}
-
-interface IDefinition {
-  key: string
-  raw: string
-  title: string
-  href: string
-  line: number
+  findReferences,
+  getDefinitions,
+  getDocumentLinks,
+  prepareRename,
+  renameSymbol
+} from "./navigation"
+import { ITargetData, parseFile, parseTextDocument } from "./parser"
+import { MystProject } from "./project"
+import { getDocumentSymbols, getWorkspaceSymbols } from "./symbols"
+import { TOC_FILE } from "./toc"
+import { getLine } from "./utils"
+
+/** The language ids of documents which are analysed as MyST Markdown */
+const MARKDOWN_LANGUAGES = ["markdown", "myst"]
+
+/** Get the names of targets which were added or removed, e.g. when a document is edited */
+function changedTargetNames(oldTargets: ITargetData[], newTargets: ITargetData[]) {
+  const key = (target: ITargetData) => `${target.type}:${target.name}`
+  const oldKeys = new Set(oldTargets.map(key))
+  const newKeys = new Set(newTargets.map(key))
+  return new Set([
+    ...oldTargets
+      .filter(target => !newKeys.has(key(target)))
+      .map(target => target.name),
+    ...newTargets.filter(target => !oldKeys.has(key(target))).map(target => target.name)
+  ])
 }
 
-interface ICacheData {
-  tokens: Token[]
-  lineToTokenIndex: number[][]
-  defs: IDefinition[]
-}
-
-// A cache of data for open documents
-class DocCache {
-  private data: Map<string, ICacheData>
-  // map of parentUri to set of childUris
-  // used for cells of a notebook
-  private parentToChildUri: Map<string, Set<string>>
-
-  constructor() {
-    this.data = new Map()
-    this.parentToChildUri = new Map()
-  }
-
-  removeUri(uri: string) {
-    this.data.delete(uri)
-    // remove children in parentToChildUri
-    for (const [parent, children] of this.parentToChildUri) {
-      if (children.has(uri)) {
-        children.delete(uri)
-        if (children.size === 0) {
-          this.parentToChildUri.delete(parent)
-        }
-      }
-    }
-    // remove all children of parent
-    this.parentToChildUri.get(uri)?.forEach(child => {
-      this.data.delete(child)
-    })
-    this.parentToChildUri.delete(uri)
-  }
-
-  clear() {
-    this.data.clear()
-  }
-
-  setParentToChildUri(parentUri: string, childUri: string) {
-    if (!this.parentToChildUri.has(parentUri)) {
-      this.parentToChildUri.set(parentUri, new Set())
-    }
-    this.parentToChildUri.get(parentUri)?.add(childUri)
-  }
-
-  setData(uri: string, data: ICacheData) {
-    this.data.set(uri, data)
-  }
-
-  getData(uri: string): ICacheData | undefined {
-    return this.data.get(uri)
-  }
-
-  *iterDefs(uri: string, distinct = true): IterableIterator<IDefinition> {
-    const defs: IDefinition[] = []
-    const data = this.data.get(uri)
-    if (data) {
-      defs.push(...data.defs)
-    }
-    // check if uri is child of parent
-    // if so add all defs from parent
-    for (const [parent, children] of this.parentToChildUri) {
-      if (children.has(uri)) {
-        for (const child of children || []) {
-          if (child !== uri) {
-            const data = this.data.get(child)
-            if (data) {
-              defs.push(...data.defs)
-            }
-          }
-        }
-      }
-    }
-    const yielded = new Set<string>()
-    for (const def of defs) {
-      if (distinct && yielded.has(def.key)) {
-        continue
-      } else if (distinct) {
-        yielded.add(def.key)
-      }
-      yield def
-    }
-  }
-}
-
-// A database for storing document data for the whole project
-class projectDatabase {
-  private db: loki
-  private targets: loki.Collection<ITargetData>
-  constructor() {
-    this.db = new loki("data.db")
-    this.targets = this.db.addCollection("targets")
-  }
-  clear() {
-    this.targets.clear()
-  }
-  removeUri(uri: string) {
-    this.targets.findAndRemove({ uri })
-  }
-  insertTargets(targets: ITargetData[]) {
-    this.targets.insert(targets)
-  }
-  getTargets(name: string): ITargetData[] {
-    return this.targets.find({ name })
-  }
-
-  *iterTargets(distinct = true, filter = {}): IterableIterator<ITargetData> {
-    const yielded = new Set<string>()
-    for (const target of this.targets.find(filter)) {
-      if (distinct) {
-        if (yielded.has(target.name)) {
-          continue
-        }
-        yielded.add(target.name)
-      }
-      yield target
-    }
-  }
-}
-
-class Server {
+export class Server {
   connection: _Connection
   // Store client side information provided on initialization (e.g. capabilities)
   clientParams: InitializeParams
@@ -220,33 +97,40 @@ class Server {
   clientCapabilities: {
     workspacesFolders: boolean
     diagnosticRelatedInfo: boolean
+    prepareRename: boolean
+    watchedFiles: boolean
+    relativePatterns: boolean
   }
   // open documents managers
   documents: TextDocuments<TextDocument>
   notebooks: NotebookDocuments<TextDocument>
   // the cache stores data for only open documents
   cache: DocCache
-  // the database stores data for the whole project
-  db: projectDatabase
-
-  // the current configuration, based on defaults and user settings
-  config: ServerConfig
-
-  constructor() {
-    this.config = JSON.parse(JSON.stringify(configSchema.default.default))
-
+  // the projects for each workspace folder, mapped by the folder uri
+  projects: Map<string, MystProject>
+  // the project for documents outside of any workspace folder
+  defaultProject: MystProject
+  // watchers for changes to project files on disk, mapped by the folder uri
+  watchers: Map<string, Disposable>
+
+  constructor(connection: _Connection = createConnection(ProposedFeatures.all)) {
     this.clientCapabilities = {
       workspacesFolders: false,
-      diagnosticRelatedInfo: false
+      diagnosticRelatedInfo: false,
+      prepareRename: false,
+      watchedFiles: false,
+      relativePatterns: false
     }
     this.clientParams = {} as InitializeParams
 
     this.cache = new DocCache()
-    this.db = new projectDatabase()
+    this.projects = new Map()
+    this.watchers = new Map()
+    this.defaultProject = new MystProject(null)
 
-    // Create a connection for the server, using Node's IPC as a transport.
+    // By default, create a connection for the server, using Node's IPC as a transport.
     // Also include all preview / proposed LSP features.
-    this.connection = createConnection(ProposedFeatures.all)
+    this.connection = connection
     // Create a simple text document manager.
     this.documents = new TextDocuments(TextDocument)
     this.notebooks = new NotebookDocuments(TextDocument)
@@ -257,6 +141,11 @@ class Server {
     // text document synchronisation
     this.documents.onDidClose(e => {
       this.cache.removeUri(e.document.uri)
+      if (this.getProject(e.document.uri).isTocDocument(e.document.uri)) {
+        // discard any unsaved changes to the table of contents
+        this.getProject(e.document.uri).loadToc()
+        this.publishDiagnostics()
+      }
     })
     this.documents.onDidOpen(this.onDocOpen.bind(this))
     this.documents.onDidChangeContent(this.onDocChange.bind(this))
@@ -275,6 +164,15 @@ class Server {
     this.connection.onHover(this.onHover.bind(this))
     this.connection.onFoldingRanges(this.onFoldingRanges.bind(this))
     this.connection.onDefinition(this.onDefinition.bind(this))
+    this.connection.onReferences(this.onReferences.bind(this))
+    this.connection.onDocumentSymbol(this.onDocumentSymbol.bind(this))
+    this.connection.onDocumentLinks(this.onDocumentLinks.bind(this))
+    this.connection.onCodeAction(this.onCodeAction.bind(this))
+    this.connection.onDocumentFormatting(this.onDocumentFormatting.bind(this))
+    this.connection.onDocumentRangeFormatting(this.onDocumentRangeFormatting.bind(this))
+    this.connection.onWorkspaceSymbol(this.onWorkspaceSymbol.bind(this))
+    this.connection.onPrepareRename(this.onPrepareRename.bind(this))
+    this.connection.onRenameRequest(this.onRenameRequest.bind(this))
     this.connection.languages.semanticTokens.on(this.onSemanticTokens.bind(this))
 
     // Make the text document managers listen on the connection
@@ -286,35 +184,60 @@ class Server {
     this.connection.listen()
   }
 
-  async updateConfig(newConfig: any) {
-    const defaults = JSON.parse(JSON.stringify(configSchema.default.default))
-    const result = validate(newConfig, configSchema)
-    if (!result.valid) {
-      this.connection.console.error(`Invalid configuration: ${result.errors}`)
-      return
-    }
-    for (const [sectionKey, section] of Object.entries(newConfig)) {
-      if (sectionKey in defaults) {
-        // eslint-disable-next-line @typescript-eslint/ban-ts-comment
-        // @ts-ignore
-        const defaultSection = defaults[sectionKey]
-        for (const [key, value] of Object.entries(section as object)) {
-          if (key in defaultSection) {
-            defaultSection[key] = value
-          }
-        }
+  /** Get the project of the innermost workspace folder containing a document */
+  getProject(uri: string): MystProject {
+    const docPath = URI.parse(uri).fsPath
+    let project = this.defaultProject
+    let rootLength = -1
+    for (const [rootUri, candidate] of this.projects) {
+      let rootPath = URI.parse(rootUri).fsPath
+      if (!rootPath.endsWith(path.sep)) {
+        rootPath += path.sep
+      }
+      if ((docPath + path.sep).startsWith(rootPath) && rootPath.length > rootLength) {
+        project = candidate
+        rootLength = rootPath.length
       }
     }
+    return project
+  }
+
+  /** Whether notebook cells are identified by their own uri, rather than that of the notebook,
+   * see: https://github.com/microsoft/language-server-protocol/issues/1399
+   */
+  get cellUris(): boolean {
+    return this.clientParams.clientInfo?.name === "Visual Studio Code"
+  }
+
+  /** Iterate all projects, including the default project */
+  *iterProjects(): IterableIterator<MystProject> {
+    yield this.defaultProject
+    yield* this.projects.values()
+  }
+
+  async updateConfig(project: MystProject, newConfig: any) {
+    let config: ServerConfig
+    try {
+      config = mergeConfig(newConfig)
+    } catch (e) {
+      this.connection.console.error(`${e}`)
+      return
+    }
     let requiresReanalysis = false
-    if (defaults.files !== this.config.files) {
+    if (config.files !== project.config.files) {
+      requiresReanalysis = true
+    }
+    if (config.parsing.extensions !== project.config.parsing.extensions) {
       requiresReanalysis = true
     }
-    if (defaults.parsing.extensions !== this.config.parsing.extensions) {
+    if (config.parsing.heading_anchors !== project.config.parsing.heading_anchors) {
       requiresReanalysis = true
     }
-    this.config = defaults
+    project.config = config
+    // the watched files may have changed
+    await this.watchProject(project)
     if (requiresReanalysis) {
-      await this.analyzeProject()
+      await this.analyzeProject(project)
     }
   }
 
@@ -331,6 +254,12 @@ class Server {
       capabilities.textDocument.publishDiagnostics &&
       capabilities.textDocument.publishDiagnostics.relatedInformation
     )
+    this.clientCapabilities.prepareRename =
+      !!capabilities.textDocument?.rename?.prepareSupport
+    this.clientCapabilities.watchedFiles =
+      !!capabilities.workspace?.didChangeWatchedFiles?.dynamicRegistration
+    this.clientCapabilities.relativePatterns =
+      !!capabilities.workspace?.didChangeWatchedFiles?.relativePatternSupport
 
     const result: InitializeResult = {
       capabilities: {
@@ -345,11 +274,27 @@ class Server {
         },
         completionProvider: {
           resolveProvider: true,
-          triggerCharacters: ["{", "[", "("]
+          triggerCharacters: ["{", "[", "(", ":", "/", "^"]
         },
         foldingRangeProvider: true,
         hoverProvider: true,
         definitionProvider: true,
+        referencesProvider: true,
+        documentSymbolProvider: true,
+        documentLinkProvider: { resolveProvider: false },
+        codeActionProvider: {
+          codeActionKinds: [
+            CodeActionKind.QuickFix,
+            CodeActionKind.Refactor,
+            CodeActionKind.RefactorRewrite
+          ]
+        },
+        documentFormattingProvider: true,
+        documentRangeFormattingProvider: true,
+        workspaceSymbolProvider: true,
+        renameProvider: this.clientCapabilities.prepareRename
+          ? { prepareProvider: true }
+          : true,
         semanticTokensProvider: {
           documentSelector: null,
           legend: {
@@ -362,69 +307,157 @@ class Server {
       }
     }
     if (this.clientCapabilities.workspacesFolders) {
-      // TODO add support for workspace folders (e.g. when analysing projects)
-      //   result.capabilities.workspace = {
-      //     workspaceFolders: {
-      //       supported: true
-      //     }
-      //   }
+      result.capabilities.workspace = {
+        workspaceFolders: {
+          supported: true,
+          changeNotifications: true
+        }
+      }
     }
 
     return result
   }
 
   async onInitialized(params: InitializedParams) {
+    if (this.clientCapabilities.workspacesFolders) {
+      this.connection.workspace.onDidChangeWorkspaceFolders(async event => {
+        await this.updateProjects(
+          event.added.map(folder => folder.uri),
+          event.removed.map(folder => folder.uri)
+        )
+      })
+    }
+    let folders: string[] = []
+    if (this.clientParams.workspaceFolders) {
+      folders = this.clientParams.workspaceFolders.map(folder => folder.uri)
+    } else if (this.clientParams.rootUri) {
+      folders = [this.clientParams.rootUri]
+    }
+    await this.updateProjects(folders, [])
+  }
+
+  /** Add and remove workspace folders,
+   * then re-analyse any open documents, since they may now be in a different project
+   */
+  async updateProjects(added: string[], removed: string[]) {
+    for (const uri of this.cache.getUris()) {
+      this.getProject(uri).db.removeUri(uri)
+    }
+    for (const rootUri of removed) {
+      this.removeProject(rootUri)
+    }
+    for (const rootUri of added) {
+      await this.addProject(rootUri)
+    }
+    for (const uri of this.cache.getUris()) {
+      const doc = this.getDocument(uri)
+      if (doc) {
+        await this.analyseTextDocument(doc)
+      }
+    }
+  }
+
+  /** Add a project for a workspace folder, load its configuration and analyse it */
+  async addProject(rootUri: string) {
+    const project = new MystProject(rootUri)
+    this.projects.set(rootUri, project)
+    if (!rootUri.startsWith("file://")) {
+      this.connection.console.warn(
+        "Only local files are supported for project analysis"
+      )
+      return
+    }
     // set up file watcher for configuration file
     // Note here we use our own config file rather than one supplied by the client
     // because we want to have a single config work for all clients, and also all myst tools in general
     // we also could have the client watch the file: https://microsoft.github.io/language-server-protocol/specifications/lsp/3.17/specification/#workspace_didChangeWatchedFiles
     // however, in particular jupyterlab-lsp does not support this yet
     // TODO use the client's file watcher, if the client supports it
-    if (this.clientParams.rootUri) {
-      // create a function to load the config from file
-      const loadConfig = () => {
-        let newConfig: any = {}
-        if (this.clientParams.rootUri) {
-          try {
-            newConfig = yaml.load(
-              fs.readFileSync(
-                path.join(url.fileURLToPath(this.clientParams.rootUri), "myst.yml"),
-                "utf8"
-              )
-            ) as any
-          } catch (e) {
-            this.connection.console.error(`Reading myst.yml failed: ${e}`)
-          }
-        }
-        return newConfig
+    const rootPath = url.fileURLToPath(rootUri)
+    const configPath = path.join(rootPath, CONFIG_FILE)
+
+    // create a function to load the config from file
+    const loadConfig = () => {
+      let newConfig: any = {}
+      try {
+        newConfig = readConfigFile(rootPath)
+      } catch (e) {
+        this.connection.console.error(`Reading ${CONFIG_FILE} failed: ${e}`)
       }
+      return newConfig
+    }
+
+    // load the config file and update the config (potentially triggering a reanalysis)
+    const newConfig = loadConfig()
+    await this.updateConfig(project, newConfig)
 
-      // load the config file and update the config (potentially triggering a reanalysis)
-      const newConfig = loadConfig()
-      await this.updateConfig(newConfig)
-
-      // watch the config file for changes and update the config (potentially triggering a reanalysis)
-      fs.watchFile(
-        path.join(url.fileURLToPath(this.clientParams.rootUri), "myst.yml"),
-        async (curr: fs.Stats, prev: fs.Stats) => {
-          // check if file deleted
-          let newConfig: any = {}
-          if (
-            curr.size !== 0 &&
-            curr.mtime !== prev.mtime &&
-            this.clientParams.rootUri
-          ) {
-            newConfig = loadConfig()
-          }
-          await this.updateConfig(newConfig)
+    // watch the config file for changes and update the config (potentially triggering a reanalysis)
+    fs.watchFile(configPath, async (curr: fs.Stats, prev: fs.Stats) => {
+      // check if file deleted
+      let newConfig: any = {}
+      if (curr.size !== 0 && curr.mtime !== prev.mtime) {
+        newConfig = loadConfig()
+      }
+      await this.updateConfig(project, newConfig)
+    })
+  }
+
+  /** Remove the project for a workspace folder */
+  removeProject(rootUri: string) {
+    const project = this.projects.get(rootUri)
+    if (!project) {
+      return
+    }
+    this.watchers.get(rootUri)?.dispose()
+    this.watchers.delete(rootUri)
+    this.projects.delete(rootUri)
+    if (rootUri.startsWith("file://")) {
+      fs.unwatchFile(path.join(url.fileURLToPath(rootUri), CONFIG_FILE))
+    }
+  }
+
+  /** Watch the files of a project for changes on disk, e.g. after a `git pull`,
+   * using the client's file watcher if it supports dynamic registration,
+   * otherwise falling back to a server-side watcher
+   */
+  async watchProject(project: MystProject) {
+    if (!project.rootUri?.startsWith("file://")) {
+      return
+    }
+    const rootUri = project.rootUri
+    this.watchers.get(rootUri)?.dispose()
+    this.watchers.delete(rootUri)
+    const rootPath = url.fileURLToPath(project.rootUri)
+    const patterns = project.getWatchPatterns()
+    if (this.clientCapabilities.watchedFiles) {
+      const registration = await this.connection.client.register(
+        DidChangeWatchedFilesNotification.type,
+        {
+          watchers: patterns.map(pattern => ({
+            globPattern: this.clientCapabilities.relativePatterns
+              ? { baseUri: rootUri, pattern }
+              : `${rootPath.split(path.sep).join("/")}/${pattern}`
+          }))
         }
       )
+      this.watchers.set(rootUri, registration)
+      return
+    }
+    try {
+      this.watchers.set(
+        rootUri,
+        project.watchFiles(change =>
+          this.onDidChangeWatchedFiles({ changes: [change] })
+        )
+      )
+    } catch (e) {
+      // recursive watching is not supported on all platforms
+      this.connection.console.warn(`Watching project files failed: ${e}`)
     }
   }
 
-  async analyzeProject() {
-    // TODO support multiple workfolders
-    const rootUri = this.clientParams.rootUri
+  async analyzeProject(project: MystProject) {
+    const rootUri = project.rootUri
     this.connection.console.log(`Starting analysing project: ${rootUri}`)
     if (!rootUri) {
       return
@@ -445,202 +478,96 @@ class Server {
       return
     }
 
-    // glob all text based files relative to the root path
-    const filesText = await glob(this.config.files.text, {
-      cwd: rootPath,
-      absolute: true,
-      ignore: this.config.files.ignore
-    })
-    // glob all jupyter notebook based files relative to the root path
-    const filesNb = await glob(this.config.files.jupyter, {
-      cwd: rootPath,
-      absolute: true,
-      ignore: this.config.files.ignore
-    })
-    const numFiles = filesText.length + filesNb.length
-
     const progress = await this.connection.window.createWorkDoneProgress()
     progress.begin("MyST LSP", 0, "Analysing Project")
-    this.db.clear()
-    for await (const [index, file] of filesText.entries()) {
-      progress.report((index / numFiles) * 100, "Analysing Project")
-      const content = fs.readFileSync(file, "utf-8")
-      const doc = TextDocument.create(URI.file(file).toString(), "markdown", 0, content)
-      const data = this.parseTextDocument(doc)
-      this.db.insertTargets(data.targets)
-    }
-    for await (const [index, file] of filesNb.entries()) {
-      progress.report(
-        ((filesText.length + index) / numFiles) * 100,
-        "Analysing Project"
-      )
-      const content = fs.readFileSync(file, "utf-8")
-      const cells = JSON.parse(content).cells as {
-        cell_type: string
-        source: string[]
-      }[]
-      cells.forEach((cell, index) => {
-        if (cell.cell_type === "markdown") {
-          let uri = URI.file(file)
-          if (this.clientParams.clientInfo?.name === "Visual Studio Code") {
-            // see: https://github.com/microsoft/language-server-protocol/issues/1399
-            uri = cellUriGenerate(URI.file(file), index)
-          }
-          const doc = TextDocument.create(
-            uri.toString(),
-            "markdown",
-            0,
-            cell.source.join("")
-          )
-          const data = this.parseTextDocument(doc)
-          this.db.insertTargets(data.targets)
-        }
-      })
-    }
+    const result = await project.index({
+      cellUris: this.cellUris,
+      onProgress: percentage => progress.report(percentage, "Analysing Project"),
+      onWarning: message => this.connection.console.warn(message)
+    })
     progress.done()
+    this.publishDiagnostics()
 
     this.connection.console.log(
-      `Finished analysing project (${filesText.length} text, ${filesNb.length} jupyter): ${rootUri}`
+      `Finished analysing project (${result.text} text, ${result.jupyter} jupyter, ${result.parsed} parsed): ${rootUri}`
     )
   }
 
-  // analyse an open text document, and store the result in the cache
+  // analyse an open text document, and publish the diagnostics which may have changed
   async analyseTextDocument(textDocument: TextDocument): Promise<void> {
-    this.db.removeUri(textDocument.uri)
-    this.cache.removeUri(textDocument.uri)
-    const data = this.parseTextDocument(textDocument)
+    this.publishDiagnostics(this.indexTextDocument(textDocument))
+  }
+
+  /** Analyse an open text document, and store the result in the cache and the project index
+   *
+   * @returns the uris of the open documents whose diagnostics may have changed:
+   *   the document, any other cells of its notebook, and documents referencing its targets
+   */
+  indexTextDocument(textDocument: TextDocument): string[] {
+    const project = this.getProject(textDocument.uri)
+    const oldTargets = project.db.getUriTargets(textDocument.uri)
+    project.db.removeUri(textDocument.uri)
+    const data = parseTextDocument(textDocument, project.config)
     this.cache.setData(textDocument.uri, {
       tokens: data.tokens,
       lineToTokenIndex: data.lineToTokenIndex,
-      defs: data.definitions
-    })
-    this.db.insertTargets(data.targets)
-    this.connection.sendDiagnostics({
-      uri: textDocument.uri,
+      defs: data.definitions,
+      footnotes: data.footnotes,
+      refs: data.references,
+      substitutions: data.substitutions,
       diagnostics: data.diagnostics
     })
+    project.db.insertTargets(data.targets)
+    project.db.insertReferences(data.references)
+    project.db.insertHeadings(data.headings)
+    if (textDocument.uri.startsWith("file:")) {
+      project.db.insertDocument({ uri: textDocument.uri })
+    }
+    return [
+      ...this.cache.getRelatedUris(textDocument.uri),
+      ...this.getReferencingUris(changedTargetNames(oldTargets, data.targets))
+    ]
   }
 
-  /** Parse a text document
+  /** Get the uris of the open documents with references to any of the target names,
+   * including links to headings, e.g. `other.md#name`
+   */
+  getReferencingUris(names: Set<string>): string[] {
+    if (!names.size) {
+      return []
+    }
+    return this.cache
+      .getUris()
+      .filter(uri =>
+        this.cache
+          .getData(uri)
+          ?.refs.some(ref =>
+            names.has(ref.type === "link" ? ref.name.split("#").pop() || "" : ref.name)
+          )
+      )
+  }
+
+  /** Publish diagnostics for open documents
    *
-   * @param textDocument The text document to parse
+   * @param uris only publish for these documents, rather than all open documents
    */
-  parseTextDocument(textDocument: TextDocument): {
-    tokens: Token[]
-    lineToTokenIndex: number[][]
-    definitions: IDefinition[]
-    targets: ITargetData[]
-    diagnostics: Diagnostic[]
-  } {
-    // The validator creates diagnostics for all uppercase words length 2 and more
-    const text = textDocument.getText()
-
-    const md = new MarkdownIt("commonmark", {})
-    md.use(definitionPlugin)
-    md.use(mystBlocksPlugin)
-    if (this.config.parsing.extensions.includes("colon_fence")) {
-      md.use(mystDivPlugin)
-    }
-    // eslint-disable-next-line @typescript-eslint/no-empty-function
-    md.use(frontMatterPlugin, () => {})
-    md.enable("table")
-    // disable anything after block parsing, since we don't need it and want to parse fast
-    md.disable(["inline", "text_join"])
-    const tokens = md.parse(text, {})
-
-    // create a mapping of line number to token indexes that span that line
-    // this is used for cursor based server queries, such as hover and completions
-    const lineToTokenIndex: number[][] = []
-    const targets: ITargetData[] = []
-    const definitions: IDefinition[] = []
-    const diagnostics: Diagnostic[] = []
-    const defKeys = new Set()
-    for (let i = 0; i < tokens.length; i++) {
-      const token = tokens[i]
-      if (!token.map) {
-        continue
-      }
-      // Collect definitions
-      if (token.type === "definition") {
-        if (defKeys.has(token.meta.key)) {
-          diagnostics.push({
-            range: {
-              start: { line: token.map[0], character: 0 },
-              end: { line: token.map[1], character: 1000 }
-            },
-            message: `Duplicate definition key: ${token.meta.key}`,
-            severity: DiagnosticSeverity.Warning
-          })
-        }
-        defKeys.add(token.meta.key)
-        definitions.push({
-          key: token.meta.key,
-          raw: token.meta.raw,
-          title: token.meta.title,
-          href: token.meta.href,
-          line: token.map[0]
-        })
-      }
-      // Collect possible targets: targets above blocks, and `name` options for directives
-      if (token.type === "myst_target") {
-        targets.push({
-          name: token.content,
-          uri: textDocument.uri,
-          line: token.map[0],
-          type: "target"
-        })
-      }
-      if (token.type === "div_open" && token.meta?.options?.name) {
-        targets.push({
-          name: token.meta.options.name,
-          uri: textDocument.uri,
-          line: token.map[0],
-          type: "name"
+  publishDiagnostics(uris?: string[]) {
+    for (const uri of new Set(uris || this.cache.getUris())) {
+      const data = this.cache.getData(uri)
+      if (data) {
+        this.connection.sendDiagnostics({
+          uri,
+          diagnostics: [
+            ...data.diagnostics,
+            ...this.getProject(uri).getReferenceDiagnostics(
+              this.cache,
+              uri,
+              this.getDocument(uri)
+            ),
+            ...this.getProject(uri).getTocDiagnostics(this.cache, uri)
+          ]
         })
       }
-      // TODO move into a markdown-it plugin?
-      if (token.type === "fence" && token.info.match(/^{[^}]+}/)) {
-        const lines = token.content.split("\n")
-        const optText: string[] = []
-        // loop through lines under one does not start with :
-        for (let j = 0; j < lines.length; j++) {
-          if (lines[j].startsWith(":")) {
-            optText.push(lines[j].slice(1))
-          } else {
-            break
-          }
-        }
-        if (optText.length > 0) {
-          try {
-            const opts = yaml.load(optText.join("\n")) as any
-            if (typeof opts === "object" && opts.name) {
-              targets.push({
-                name: opts.name,
-                uri: textDocument.uri,
-                line: token.map[0],
-                type: "name"
-              })
-            }
-          } catch (e) {
-            // ignore
-          }
-        }
-      }
-
-      // loop through all lines the token spans, for referencing later by cursor position
-      for (let j = token.map[0]; j < token.map[1]; j++) {
-        if (lineToTokenIndex[j] === undefined) {
-          lineToTokenIndex[j] = []
-        }
-        lineToTokenIndex[j].push(i)
-      }
-    }
-    return {
-      tokens,
-      lineToTokenIndex,
-      definitions,
-      targets,
-      diagnostics
     }
   }
 
@@ -649,34 +576,82 @@ class Server {
   }
 
   onDocChange(change: TextDocumentChangeEvent<TextDocument>) {
+    if (this.getProject(change.document.uri).isTocDocument(change.document.uri)) {
+      this.analyseTocDocument(change.document)
+      return
+    }
+    // other files, e.g. `_toc.yml` outside of a project root, are not analysed
+    if (!this.isMarkdownDocument(change.document)) {
+      return
+    }
     this.analyseTextDocument(change.document)
   }
 
+  /** Check if an open document is MyST Markdown, rather than the table of contents or
+   * other files that the client sends, since they could contain the table of contents
+   */
+  isMarkdownDocument(doc: TextDocument): boolean {
+    return (
+      MARKDOWN_LANGUAGES.includes(doc.languageId) &&
+      !this.getProject(doc.uri).isTocDocument(doc.uri)
+    )
+  }
+
+  /** Update the table of contents from an open document, if it contains the table of contents,
+   * and publish its diagnostics
+   */
+  analyseTocDocument(textDocument: TextDocument) {
+    const project = this.getProject(textDocument.uri)
+    const isToc = project.getTocPath() === URI.parse(textDocument.uri).fsPath
+    if (isToc) {
+      project.setToc(textDocument.uri, textDocument.getText())
+    }
+    this.connection.sendDiagnostics({
+      uri: textDocument.uri,
+      diagnostics: isToc ? project.getTocFileDiagnostics() : []
+    })
+    // documents may have been added to or removed from the table of contents
+    this.publishDiagnostics()
+  }
+
   onNbOpen(nb: NotebookDocument) {
+    const uris: string[] = []
     for (const cell of nb.cells) {
       const cellDoc = this.notebooks.getCellTextDocument(cell)
       if (cellDoc) {
-        this.analyseTextDocument(cellDoc)
+        uris.push(...this.indexTextDocument(cellDoc))
         this.cache.setParentToChildUri(nb.uri, cellDoc.uri)
       }
     }
+    // definitions can be shared between cells, so diagnostics are published once all are cached
+    this.publishDiagnostics(uris)
   }
 
   onNbChange(change: NotebookDocumentChangeEvent) {
     if (!change.cells) {
       return
     }
+    const uris: string[] = []
     for (const cell of change.cells.removed) {
+      const project = this.getProject(cell.document)
+      const oldTargets = project.db.getUriTargets(cell.document)
+      uris.push(
+        ...this.cache.getRelatedUris(cell.document),
+        ...this.getReferencingUris(changedTargetNames(oldTargets, []))
+      )
       this.cache.removeUri(cell.document)
-      this.db.removeUri(cell.document)
+      project.db.removeUri(cell.document)
     }
     for (const cell of change.cells.added) {
       const cellDoc = this.notebooks.getCellTextDocument(cell)
       if (cellDoc) {
-        this.analyseTextDocument(cellDoc)
         this.cache.setParentToChildUri(change.notebookDocument.uri, cellDoc.uri)
+        uris.push(...this.indexTextDocument(cellDoc))
       }
     }
+    if (change.cells.added.length || change.cells.removed.length) {
+      this.publishDiagnostics(uris)
+    }
     for (const cell of change.cells.changed.textContent) {
       const cellDoc = this.notebooks.getCellTextDocument(cell)
       if (cellDoc) {
@@ -685,14 +660,86 @@ class Server {
     }
   }
 
-  // Monitored files have changed
+  /** Monitored files have changed on disk, so re-index each one.
+   * Files open in the client are skipped, since their content is synchronised separately
+   */
   onDidChangeWatchedFiles(change: DidChangeWatchedFilesParams) {
-    // TODO not currently used
+    let changed = false
+    const tocProjects = new Set<MystProject>()
     for (const file of change.changes) {
-      if (file.type === FileChangeType.Deleted) {
-        this.db.removeUri(file.uri)
+      const project = this.getProject(file.uri)
+      if (!project.rootUri?.startsWith("file://")) {
+        continue
+      }
+      const filePath = URI.parse(file.uri).fsPath
+      const relPath = path
+        .relative(url.fileURLToPath(project.rootUri), filePath)
+        .split(path.sep)
+        .join("/")
+      if (
+        project.config.files.bibliography.some(
+          file =>
+            path.resolve(url.fileURLToPath(project.rootUri as string), file) ===
+            filePath
+        )
+      ) {
+        project.loadBibliography(message => this.connection.console.warn(message))
+        changed = true
+        continue
+      }
+      if (path.join(url.fileURLToPath(project.rootUri), TOC_FILE) === filePath) {
+        if (!this.documents.get(file.uri)) {
+          project.loadToc(message => this.connection.console.warn(message))
+          changed = true
+        }
+        continue
+      }
+      const options = { ignore: project.config.files.ignore, dot: true }
+      const isText = micromatch.isMatch(relPath, project.config.files.text, options)
+      const isNotebook = micromatch.isMatch(
+        relPath,
+        project.config.files.jupyter,
+        options
+      )
+      if (!isText && !isNotebook) {
+        continue
+      }
+      if (file.type !== FileChangeType.Changed) {
+        // files listed in the table of contents may have been created or deleted
+        tocProjects.add(project)
+      }
+      if (
+        this.documents.get(file.uri) ||
+        this.notebooks.getNotebookDocument(file.uri)
+      ) {
+        continue
+      }
+      project.db.removePath(filePath)
+      changed = true
+      if (file.type === FileChangeType.Deleted || !fs.existsSync(filePath)) {
+        continue
+      }
+      try {
+        project.db.insertFile(
+          parseFile(filePath, project.config, !isText, this.cellUris)
+        )
+      } catch (e) {
+        this.connection.console.error(`Indexing ${filePath} failed: ${e}`)
       }
     }
+    for (const project of tocProjects) {
+      project.resolveToc()
+      if (project.toc && this.documents.get(project.toc.uri)) {
+        this.connection.sendDiagnostics({
+          uri: project.toc.uri,
+          diagnostics: project.getTocFileDiagnostics()
+        })
+      }
+      changed = true
+    }
+    if (changed) {
+      this.publishDiagnostics()
+    }
   }
 
   getDocument(uri: string): TextDocument | undefined {
@@ -714,7 +761,10 @@ class Server {
     }
     const foldingRanges: FoldingRange[] = []
     for (const token of this.cache.getData(textDocument.uri)?.tokens || []) {
-      if (token.map && this.config.lsp.foldingTokens.includes(token.type)) {
+      if (
+        token.map &&
+        this.getProject(textDocument.uri).config.lsp.foldingTokens.includes(token.type)
+      ) {
         foldingRanges.push({
           startLine: token.map[0],
           endLine: token.map[1] - 1
@@ -724,211 +774,81 @@ class Server {
     return foldingRanges
   }
 
-  // This handler provides the initial list of the completion items.
-  onCompletion(textDocumentPosition: TextDocumentPositionParams): CompletionItem[] {
-    // The pass parameter contains the position of the text document in
-    // which code complete got requested. For the example we ignore this
-    // info and always provide the same completion items.
-    const doc = this.getDocument(textDocumentPosition.textDocument.uri)
-    const docData = this.cache.getData(textDocumentPosition.textDocument.uri)
-    if (!docData || !doc) {
-      return []
-    }
-
-    const indexes = docData.lineToTokenIndex[textDocumentPosition.position.line] || []
+  onCompletion(params: TextDocumentPositionParams): CompletionItem[] {
+    return getCompletions(this, params)
+  }
 
-    const completionItems: CompletionItem[] = []
-    for (const index of indexes) {
-      const token = docData.tokens[index]
-      if (
-        token.map &&
-        textDocumentPosition.position.line === token.map[0] &&
-        (token.type === "fence" || token.type === "div_open")
-      ) {
-        const matchDir = matchDirectiveStart(doc, textDocumentPosition)
-        if (matchDir) {
-          for (const name in dirDict) {
-            if (name.startsWith(matchDir.partial)) {
-              completionItems.push({
-                label: name,
-                kind: CompletionItemKind.Class,
-                detail: "MyST directive",
-                data: "myst.directive",
-                textEdit: completetionTextEdit(
-                  name,
-                  matchDir.partial,
-                  textDocumentPosition.position
-                )
-              })
-            }
-          }
-        }
-      } else if (token.type === "inline") {
-        const line = getLine(doc, textDocumentPosition.position.line)
-        completionItems.push(
-          ...this.completeInlineCursor(
-            textDocumentPosition.textDocument.uri,
-            textDocumentPosition.position,
-            line
-          )
-        )
-      }
-    }
-    return completionItems
-  }
-
-  /** Identify possible completions for a cursor in an inline block */
-  *completeInlineCursor(
-    uri: string,
-    cursor: Position,
-    content: string
-  ): IterableIterator<CompletionItem> {
-    const before: string = content.slice(0, cursor.character)
-
-    const matchRefLink = before.match(/\]\([<]?([^(]*)$/)
-    if (matchRefLink) {
-      const start = matchRefLink[1]
-      for (const target of this.db.iterTargets()) {
-        if (target.name.startsWith(start)) {
-          yield {
-            label: target.name,
-            kind: CompletionItemKind.Reference,
-            detail: `MyST ${target.type}`,
-            data: "myst.target",
-            textEdit: completetionTextEdit(target.name, start, cursor)
-          }
-        }
-      }
-      return
-    }
+  onCompletionResolve(item: CompletionItem): CompletionItem {
+    return resolveCompletion(item)
+  }
 
-    const matchDefLink = before.match(/\]\[([^[]*)$/)
-    if (matchDefLink) {
-      const start = matchDefLink[1]
-      for (const data of this.cache.iterDefs(uri, true)) {
-        yield {
-          label: data.raw,
-          kind: CompletionItemKind.Reference,
-          detail: "MyST definition",
-          documentation: data.href,
-          data: "myst.definition",
-          textEdit: completetionTextEdit(data.raw, start, cursor)
-        }
-      }
-      return
-    }
+  onHover(params: TextDocumentPositionParams): Hover | null {
+    return getHover(this, params)
+  }
 
-    const matchRole = before.match(/\{([a-zA-Z0-9:_-]*)$/)
-    if (matchRole) {
-      const start = matchRole[1]
-      for (const name in roleDict) {
-        if (name.startsWith(start)) {
-          yield {
-            label: name,
-            kind: CompletionItemKind.Function,
-            detail: "MyST role",
-            data: "myst.role",
-            textEdit: completetionTextEdit(name, start, cursor)
-          }
-        }
-      }
-      return
-    }
+  onDefinition(params: DefinitionParams): Location[] | null {
+    return getDefinitions(this, params)
   }
 
-  onCompletionResolve(item: CompletionItem): CompletionItem {
-    if (item.data === "myst.directive") {
-      const dict: { [key: string]: { name: string } } = dirDict
-      const data = dict[item.label]
-      item.documentation = makeDescription(data)
-    }
-    return item
+  onReferences(params: ReferenceParams): Location[] {
+    return findReferences(this, params)
   }
 
-  onHover(params: TextDocumentPositionParams): Hover | null {
-    const doc = this.getDocument(params.textDocument.uri)
-    const docData = this.cache.getData(params.textDocument.uri)
-    if (!docData || !doc) {
-      return null
-    }
+  onPrepareRename(params: PrepareRenameParams): Range | null {
+    return prepareRename(this, params)
+  }
 
-    const indexes = docData.lineToTokenIndex[params.position.line] || []
+  onRenameRequest(params: RenameParams): WorkspaceEdit | ResponseError<void> | null {
+    return renameSymbol(this, params, message => this.connection.console.warn(message))
+  }
 
-    for (const index of indexes) {
-      const token = docData.tokens[index]
+  onDocumentSymbol(params: DocumentSymbolParams): DocumentSymbol[] {
+    return getDocumentSymbols(this, params)
+  }
 
-      if (!token.map) {
-        continue
-      }
+  onDocumentLinks(params: DocumentLinkParams): DocumentLink[] {
+    return getDocumentLinks(this, params)
+  }
 
-      // Hover over a directive name
-      if (
-        (token.type === "fence" || token.type === "div_open") &&
-        params.position.line === token.map[0]
-      ) {
-        const name = matchDirectiveName(doc, params)
-        if (name) {
-          const dict: { [key: string]: { name: string } } = dirDict
-          const data = dict[name]
-          if (data) {
-            return {
-              contents: makeDescription(data)
-            }
-          }
-        }
-      }
+  onCodeAction(params: CodeActionParams): CodeAction[] {
+    const doc = this.getDocument(params.textDocument.uri)
+    const data = this.cache.getData(params.textDocument.uri)
+    if (!doc || !data) {
+      return []
     }
-
-    return null
+    const project = this.getProject(doc.uri)
+    const actions = [
+      ...getQuickFixes(doc, params.context.diagnostics, data.tokens, project),
+      ...getRefactorActions(doc, params.range, data.tokens, project)
+    ]
+    const only = params.context.only
+    if (!only) {
+      return actions
+    }
+    // kinds are hierarchical, e.g. "refactor" includes "refactor.rewrite"
+    return actions.filter(action =>
+      only.some(kind => action.kind === kind || action.kind?.startsWith(`${kind}.`))
+    )
   }
 
-  onDefinition(params: DefinitionParams): Location[] | null {
+  onDocumentFormatting(params: DocumentFormattingParams): TextEdit[] {
     const doc = this.getDocument(params.textDocument.uri)
-    if (!doc) {
-      return null
-    }
-    const defs: Location[] = []
-    const matchRefLink = matchReferenceLink(doc, params.position)
-    if (matchRefLink) {
-      const targets = this.db.getTargets(matchRefLink.text)
-      for (const target of targets) {
-        defs.push({
-          uri: target.uri,
-          range: {
-            start: {
-              line: target.line,
-              character: 0
-            },
-            end: {
-              line: target.line,
-              character: 10000
-            }
-          }
-        })
-      }
+    if (!doc || !this.isMarkdownDocument(doc)) {
+      return []
     }
-    const matchRefDef = matchReferenceDefinition(doc, params.position)
-    if (matchRefDef) {
-      const defKey = normalizeReference(matchRefDef.text)
-      for (const def of this.cache.iterDefs(params.textDocument.uri)) {
-        if (def.key === defKey) {
-          defs.push({
-            uri: params.textDocument.uri,
-            range: {
-              start: {
-                line: def.line,
-                character: 0
-              },
-              end: {
-                line: def.line,
-                character: 10000
-              }
-            }
-          })
-        }
-      }
+    return formatDocument(doc, this.getProject(doc.uri).config)
+  }
+
+  onDocumentRangeFormatting(params: DocumentRangeFormattingParams): TextEdit[] {
+    const doc = this.getDocument(params.textDocument.uri)
+    if (!doc || !this.isMarkdownDocument(doc)) {
+      return []
     }
-    return defs
+    return formatDocument(doc, this.getProject(doc.uri).config, params.range)
+  }
+
+  onWorkspaceSymbol(params: WorkspaceSymbolParams): SymbolInformation[] {
+    return getWorkspaceSymbols([...this.iterProjects()], params)
   }
 
   onSemanticTokens(params: SemanticTokensParams): SemanticTokens {
@@ -984,33 +904,7 @@ class Server {
   }
 }
 
-function completetionTextEdit(
-  text: string,
-  partial: string,
-  cursor: Position
-): TextEdit {
-  return {
-    newText: text,
-    range: {
-      start: {
-        line: cursor.line,
-        character: cursor.character - partial.length
-      },
-      end: cursor
-    }
-  }
-}
-
-const _lengths = ["W", "X", "Y", "Z", "a", "b", "c", "d", "e", "f"]
-const _radix = 7
-
-/** adapted from https://github.com/microsoft/vscode/blob/990cc855de8b8b695b6acc086006904caa35434d/src/vs/workbench/contrib/notebook/common/notebookCommon.ts */
-function cellUriGenerate(notebook: URI, index: number): URI {
-  const s = index.toString(_radix)
-  const p = s.length < _lengths.length ? _lengths[s.length - 1] : "z"
-
-  const fragment = `${p}${s}s${Buffer.from(notebook.scheme).toString("base64")}`
-  return notebook.with({ scheme: "vscode-notebook-cell", fragment })
+// only start the server when run directly, not when imported (e.g. by the CLI)
+if (require.main === module) {
+  new Server()
 }
-
-new Server()
@@ -0,0 +1,139 @@
+import path from "path"
+import {
+  DocumentSymbol,
+  DocumentSymbolParams,
+  SymbolInformation,
+  SymbolKind,
+  WorkspaceSymbolParams
+} from "vscode-languageserver"
+import { URI } from "vscode-uri"
+
+import { IWorkspace, MystProject } from "./project"
+import { fuzzyMatch, getLine } from "./utils"
+
+/** Find the outline of a document: its headings, targets and named directives */
+export function getDocumentSymbols(
+  workspace: IWorkspace,
+  params: DocumentSymbolParams
+): DocumentSymbol[] {
+  const doc = workspace.getDocument(params.textDocument.uri)
+  const data = workspace.cache.getData(params.textDocument.uri)
+  if (!doc || !data) {
+    return []
+  }
+  // collect headings, targets and named directives, in document order
+  const items: { symbol: DocumentSymbol; level: number }[] = []
+  for (const [index, token] of data.tokens.entries()) {
+    if (token.type === "heading_open" && token.map) {
+      const selectionRange = {
+        start: { line: token.map[0], character: 0 },
+        end: {
+          line: token.map[0],
+          character: getLine(doc, token.map[0]).trimEnd().length
+        }
+      }
+      items.push({
+        symbol: {
+          name: data.tokens[index + 1]?.content || " ",
+          kind: SymbolKind.String,
+          range: selectionRange,
+          selectionRange,
+          children: []
+        },
+        level: parseInt(token.tag.slice(1))
+      })
+    }
+  }
+  for (const target of workspace
+    .getProject(params.textDocument.uri)
+    .db.getUriTargets(params.textDocument.uri)) {
+    if (target.type !== "target" && target.type !== "name") {
+      continue
+    }
+    items.push({
+      symbol: {
+        name: target.name,
+        detail: target.type === "name" ? "directive" : "target",
+        kind: target.type === "name" ? SymbolKind.Class : SymbolKind.Key,
+        range: { start: { line: target.line, character: 0 }, end: target.range.end },
+        selectionRange: target.range
+      },
+      level: 0
+    })
+  }
+  items.sort((a, b) => a.symbol.range.start.line - b.symbol.range.start.line)
+
+  // nest the symbols under headings, by level
+  const symbols: DocumentSymbol[] = []
+  const stack: { symbol: DocumentSymbol; level: number }[] = []
+  const closeSection = (line: number) => {
+    const item = stack.pop()
+    if (item) {
+      item.symbol.range = {
+        start: item.symbol.range.start,
+        end: { line, character: 0 }
+      }
+    }
+  }
+  for (const item of items) {
+    if (item.level) {
+      while (stack.length && stack[stack.length - 1].level >= item.level) {
+        closeSection(item.symbol.range.start.line)
+      }
+    }
+    const parent = stack[stack.length - 1]
+    if (parent) {
+      parent.symbol.children?.push(item.symbol)
+    } else {
+      symbols.push(item.symbol)
+    }
+    if (item.level) {
+      stack.push(item)
+    }
+  }
+  while (stack.length) {
+    closeSection(doc.lineCount)
+  }
+  return symbols
+}
+
+/** Search the headings, targets and named directives of all projects */
+export function getWorkspaceSymbols(
+  projects: MystProject[],
+  params: WorkspaceSymbolParams
+): SymbolInformation[] {
+  const symbols: SymbolInformation[] = []
+  // symbols are searched across all workspace folders
+  for (const project of projects) {
+    for (const heading of project.db.iterHeadings()) {
+      if (fuzzyMatch(params.query, heading.name)) {
+        symbols.push({
+          name: heading.name,
+          kind: SymbolKind.String,
+          location: {
+            uri: heading.uri,
+            range: {
+              start: { line: heading.line, character: 0 },
+              end: { line: heading.line, character: 0 }
+            }
+          },
+          containerName: path.basename(URI.parse(heading.uri).fsPath)
+        })
+      }
+    }
+    for (const target of project.db.iterAllTargets()) {
+      if (
+        (target.type === "target" || target.type === "name") &&
+        fuzzyMatch(params.query, target.name)
+      ) {
+        symbols.push({
+          name: target.name,
+          kind: target.type === "name" ? SymbolKind.Class : SymbolKind.Key,
+          location: { uri: target.uri, range: target.range },
+          containerName: path.basename(URI.parse(target.uri).fsPath)
+        })
+      }
+    }
+  }
+  return symbols
+}
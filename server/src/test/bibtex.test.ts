@@ -0,0 +1,58 @@
+/* --------------------------------------------------------------------------------------------
+ * Licensed under the MIT License. See License file in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+
+import * as assert from "assert"
+
+import { formatBibEntry, parseBibtex } from "../bibtex"
+
+const BIBTEX = `@string{ jb = "J. B." }
+@comment{ ignore me }
+@article{key1,
+  author = "Doe, John and Roe, Ann",
+  title = {The {Big} Title},
+  journal = jb # " Letters",
+  month = jan,
+  year = 2001,
+  doi = {10.1/x}
+}
+@book{key2, title="T", publisher={P}}
+@misc{broken
+`
+
+suite("parseBibtex", () => {
+  const entries = parseBibtex(BIBTEX)
+
+  test("Parses entries, skipping comments, strings and broken entries", () => {
+    assert.deepStrictEqual(
+      entries.map(entry => [entry.type, entry.key]),
+      [
+        ["article", "key1"],
+        ["book", "key2"]
+      ]
+    )
+    assert.strictEqual(entries[0].offset, BIBTEX.indexOf("key1"))
+  })
+
+  test("Expands strings, months and braces", () => {
+    assert.deepStrictEqual(entries[0].fields, {
+      author: "Doe, John and Roe, Ann",
+      title: "The Big Title",
+      journal: "J. B. Letters",
+      month: "January",
+      year: "2001",
+      doi: "10.1/x"
+    })
+    assert.deepStrictEqual(entries[1].fields, { title: "T", publisher: "P" })
+  })
+
+  test("Formats an entry", () => {
+    const [entry] = parseBibtex(
+      "@article{key1, author = {Doe, John and Roe, Ann}, title = {Title}, journal = {JB}, volume = 3, pages = {1--2}, year = 2001, doi = {10.1/x}}"
+    )
+    assert.strictEqual(
+      formatBibEntry(entry),
+      "**key1** (article)\n\nJohn Doe and Ann Roe (2001). *Title*. JB, 3, 1--2. https://doi.org/10.1/x"
+    )
+  })
+})
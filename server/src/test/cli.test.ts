@@ -0,0 +1,106 @@
+/* --------------------------------------------------------------------------------------------
+ * Licensed under the MIT License. See License file in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+
+import * as assert from "assert"
+import fs from "fs"
+import os from "os"
+import path from "path"
+import { URI } from "vscode-uri"
+
+import { check, parseCheckArgs, UsageError } from "../cli"
+import { createProject, removeProject } from "./helper"
+
+suite("parseCheckArgs", () => {
+  test("Uses the defaults", () => {
+    assert.deepStrictEqual(parseCheckArgs([]), {
+      root: ".",
+      format: "text",
+      failOn: "error",
+      paths: []
+    })
+  })
+
+  test("Parses options and paths", () => {
+    assert.deepStrictEqual(
+      parseCheckArgs([
+        "--root",
+        "docs",
+        "a.md",
+        "--format",
+        "sarif",
+        "--fail-on",
+        "none"
+      ]),
+      { root: "docs", format: "sarif", failOn: "none", paths: ["a.md"] }
+    )
+  })
+
+  test("Rejects invalid arguments", () => {
+    assert.throws(() => parseCheckArgs(["--format", "xml"]), UsageError)
+    assert.throws(() => parseCheckArgs(["--fail-on", "bad"]), UsageError)
+    assert.throws(() => parseCheckArgs(["--root"]), UsageError)
+    assert.throws(() => parseCheckArgs(["--unknown"]), UsageError)
+  })
+})
+
+suite("check", () => {
+  const project = createProject({
+    "index.md": "# Index\n\nSee {ref}`missing`.\n",
+    "docs/page.md": "# Page\n"
+  })
+  const rootPath = URI.parse(project.rootUri as string).fsPath
+  const cacheHome = fs.mkdtempSync(path.join(os.tmpdir(), "myst-lsp-cache-"))
+  const xdgCacheHome = process.env.XDG_CACHE_HOME
+  const { log, error } = console
+  let output: string[] = []
+
+  setup(() => {
+    process.env.XDG_CACHE_HOME = cacheHome
+    output = []
+    console.log = (message: string) => output.push(message)
+    console.error = (message: string) => output.push(message)
+  })
+
+  teardown(() => {
+    console.log = log
+    console.error = error
+    if (xdgCacheHome === undefined) {
+      delete process.env.XDG_CACHE_HOME
+    } else {
+      process.env.XDG_CACHE_HOME = xdgCacheHome
+    }
+  })
+
+  suiteTeardown(() => {
+    removeProject(project)
+    fs.rmSync(cacheHome, { recursive: true, force: true })
+  })
+
+  test("Checks all files of the root by default", async () => {
+    assert.strictEqual(await check(["--root", rootPath, "--fail-on", "warning"]), 1)
+    assert.deepStrictEqual(output, [
+      "index.md:3:11: warning: Unknown target: missing\n1 problem(s): 1 warning"
+    ])
+  })
+
+  test("Resolves paths relative to the root", async () => {
+    assert.strictEqual(
+      await check(["--root", rootPath, "--fail-on", "warning", "docs"]),
+      0
+    )
+    assert.deepStrictEqual(output, ["No problems found"])
+  })
+
+  test("Rejects paths outside the root", async () => {
+    assert.strictEqual(
+      await check(["--root", path.join(rootPath, "docs"), "../index.md"]),
+      2
+    )
+    assert.deepStrictEqual(output, ["Path is outside the project root: ../index.md"])
+  })
+
+  test("Returns 2 for usage errors", async () => {
+    assert.strictEqual(await check(["--format", "xml"]), 2)
+  })
+})
@@ -0,0 +1,106 @@
+/* --------------------------------------------------------------------------------------------
+ * Licensed under the MIT License. See License file in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+
+import * as assert from "assert"
+import { CodeAction, TextEdit } from "vscode-languageserver"
+import { TextDocument } from "vscode-languageserver-textdocument"
+
+import { getQuickFixes, getRefactorActions } from "../codeActions"
+import { TestWorkspace } from "./helper"
+
+const URI = "file:///test.md"
+
+/** Get the titles and edits of actions for a single document */
+function summarise(actions: CodeAction[]): [string, TextEdit[]][] {
+  return actions.map(action => [action.title, action.edit?.changes?.[URI] || []])
+}
+
+/** Get the quick fixes for the diagnostics of a document, as the server publishes them */
+function quickFixes(workspace: TestWorkspace, doc: TextDocument) {
+  const data = workspace.cache.getData(doc.uri)
+  const diagnostics = [
+    ...(data?.diagnostics || []),
+    ...workspace.project.getReferenceDiagnostics(workspace.cache, doc.uri, doc)
+  ]
+  return getQuickFixes(doc, diagnostics, data?.tokens || [], workspace.project)
+}
+
+function refactorActions(workspace: TestWorkspace, doc: TextDocument, line: number) {
+  const range = { start: { line, character: 0 }, end: { line, character: 0 } }
+  const tokens = workspace.cache.getData(doc.uri)?.tokens || []
+  return getRefactorActions(doc, range, tokens, workspace.project)
+}
+
+suite("getQuickFixes", () => {
+  test("Changes an unknown role to the closest matches", () => {
+    const workspace = new TestWorkspace()
+    const doc = workspace.open(URI, "See {reff}`x`.\n")
+    const actions = quickFixes(workspace, doc)
+    assert.deepStrictEqual(summarise(actions)[0], [
+      'Change to "ref"',
+      [
+        TextEdit.replace(
+          { start: { line: 0, character: 5 }, end: { line: 0, character: 9 } },
+          "ref"
+        )
+      ]
+    ])
+    assert.strictEqual(actions[0].isPreferred, true)
+  })
+
+  test("Changes an unknown target to a known target", () => {
+    const workspace = new TestWorkspace()
+    const doc = workspace.open(URI, "(my-target)=\n# Title\n\nSee {ref}`my-targt`.\n")
+    assert.deepStrictEqual(summarise(quickFixes(workspace, doc)), [
+      [
+        'Change to "my-target"',
+        [
+          TextEdit.replace(
+            { start: { line: 3, character: 10 }, end: { line: 3, character: 18 } },
+            "my-target"
+          )
+        ]
+      ]
+    ])
+  })
+})
+
+suite("getRefactorActions", () => {
+  test("Converts a directive code fence to a colon fence", () => {
+    const workspace = new TestWorkspace()
+    workspace.project.config.parsing.extensions.push("colon_fence")
+    const doc = workspace.open(URI, "```{note}\n---\nclass: tip\n---\nText\n```\n")
+    assert.deepStrictEqual(summarise(refactorActions(workspace, doc, 0)), [
+      [
+        "Convert to colon fence",
+        [
+          TextEdit.replace(
+            { start: { line: 0, character: 0 }, end: { line: 0, character: 3 } },
+            ":::"
+          ),
+          TextEdit.replace(
+            { start: { line: 1, character: 0 }, end: { line: 4, character: 0 } },
+            ":class: tip\n"
+          ),
+          TextEdit.replace(
+            { start: { line: 5, character: 0 }, end: { line: 5, character: 3 } },
+            ":::"
+          )
+        ]
+      ]
+    ])
+  })
+
+  test("Adds a unique target above a heading", () => {
+    const workspace = new TestWorkspace()
+    const doc = workspace.open(URI, "(title)=\n# Title\n\nText\n# Title\n")
+    assert.deepStrictEqual(refactorActions(workspace, doc, 1), [])
+    assert.deepStrictEqual(summarise(refactorActions(workspace, doc, 4)), [
+      [
+        'Add target "(title-1)=" above heading',
+        [TextEdit.insert({ line: 4, character: 0 }, "\n(title-1)=\n\n")]
+      ]
+    ])
+  })
+})
@@ -0,0 +1,27 @@
+/* --------------------------------------------------------------------------------------------
+ * Licensed under the MIT License. See License file in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+
+import * as assert from "assert"
+
+import { getCompletions } from "../completion"
+import { createProject, projectUri, removeProject, TestWorkspace } from "./helper"
+
+suite("getCompletions", () => {
+  test("Completes document paths with forward slashes", () => {
+    const project = createProject({ "index.md": "", "parts/chapter.md": "# Chapter\n" })
+    const workspace = new TestWorkspace(project)
+    workspace.open(projectUri(project, "parts/chapter.md"), "# Chapter\n")
+    const uri = projectUri(project, "index.md")
+    workspace.open(uri, "{doc}`pa")
+    const items = getCompletions(workspace, {
+      textDocument: { uri },
+      position: { line: 0, character: 8 }
+    })
+    assert.deepStrictEqual(
+      items.map(item => [item.label, item.detail]),
+      [["parts/chapter", "Chapter"]]
+    )
+    removeProject(project)
+  })
+})
@@ -0,0 +1,72 @@
+/* --------------------------------------------------------------------------------------------
+ * Licensed under the MIT License. See License file in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+
+import * as assert from "assert"
+import { TextDocument } from "vscode-languageserver-textdocument"
+
+import { defaultConfig, ServerConfig } from "../config"
+import { formatDocument } from "../formatter"
+
+function format(text: string, update?: (config: ServerConfig) => void): string {
+  const config = defaultConfig()
+  update?.(config)
+  const doc = TextDocument.create("file:///test.md", "markdown", 1, text)
+  return TextDocument.applyEdits(doc, formatDocument(doc, config))
+}
+
+suite("formatDocument", () => {
+  test("Shortens directive fences", () => {
+    assert.strictEqual(format("``````{note}\ntext\n``````\n"), "```{note}\ntext\n```\n")
+  })
+
+  test("Keeps fences that contain code", () => {
+    const text = "````{note}\n```python\nx\n```\n````\n"
+    assert.strictEqual(format(text), text)
+  })
+
+  test("Shortens colon fences to enclose nested fences", () => {
+    assert.strictEqual(format("::::{note}\nx\n::::\n"), ":::{note}\nx\n:::\n")
+    assert.strictEqual(
+      format("::::::{note}\n::::{tip}\nx\n::::\n::::::\n"),
+      "::::{note}\n:::{tip}\nx\n:::\n::::\n"
+    )
+  })
+
+  test("Normalises blank lines around blocks", () => {
+    assert.strictEqual(
+      format("(t)=\n\n\n# Head\ntext\n+++\nmore\n"),
+      "(t)=\n\n# Head\ntext\n\n+++\n\nmore\n"
+    )
+  })
+
+  test("Aligns tables", () => {
+    assert.strictEqual(
+      format("| a | bbb |\n|---|:-:|\n| cc | d |\n"),
+      "| a   | bbb |\n| --- | :-: |\n| cc  |  d  |\n"
+    )
+  })
+
+  test("Converts directive options", () => {
+    const colon = "```{figure} x.png\n:width: 50%\n:name: fig\nCaption\n```\n"
+    const yaml = "```{figure} x.png\n---\nwidth: 50%\nname: fig\n---\nCaption\n```\n"
+    assert.strictEqual(
+      format(colon, config => (config.formatting.directive_options = "yaml")),
+      yaml
+    )
+    assert.strictEqual(
+      format(yaml, config => (config.formatting.directive_options = "colon")),
+      colon
+    )
+  })
+
+  test("Only formats the given range", () => {
+    const text = "``````{note}\na\n``````\n\n``````{tip}\nb\n``````\n"
+    const doc = TextDocument.create("file:///test.md", "markdown", 1, text)
+    const range = { start: { line: 4, character: 0 }, end: { line: 6, character: 0 } }
+    assert.strictEqual(
+      TextDocument.applyEdits(doc, formatDocument(doc, defaultConfig(), range)),
+      "``````{note}\na\n``````\n\n```{tip}\nb\n```\n"
+    )
+  })
+})
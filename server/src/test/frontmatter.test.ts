@@ -0,0 +1,101 @@
+/* --------------------------------------------------------------------------------------------
+ * Licensed under the MIT License. See License file in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+
+import * as assert from "assert"
+import Token from "markdown-it/lib/token"
+
+import {
+  completeFrontMatter,
+  frontMatterDiagnostics,
+  hoverFrontMatter,
+  isOrphan,
+  yamlPathLine
+} from "../frontmatter"
+
+/** Create a front matter token, for content starting on the second line of a document */
+function frontMatter(content: string): Token {
+  const token = new Token("front_matter", "", 0)
+  token.meta = content
+  token.map = [0, content.split("\n").length + 2]
+  return token
+}
+
+suite("frontMatterDiagnostics", () => {
+  test("Accepts valid front matter", () => {
+    const token = frontMatter(
+      "title: Title\nauthors:\n  - Name\n  - name: Other\norphan: true"
+    )
+    assert.deepStrictEqual(frontMatterDiagnostics(token), [])
+  })
+
+  test("Reports invalid YAML", () => {
+    const diagnostics = frontMatterDiagnostics(
+      frontMatter("title: Title\ntitle: Again")
+    )
+    assert.deepStrictEqual(
+      diagnostics.map(diagnostic => [diagnostic.code, diagnostic.range.start.line]),
+      [["invalid-front-matter", 2]]
+    )
+  })
+
+  test("Reports values by the alternative with the same type", () => {
+    const token = frontMatter(
+      "title: Title\nauthors:\n  - Name\n  - name: 1\norphan: yes"
+    )
+    assert.deepStrictEqual(
+      frontMatterDiagnostics(token).map(diagnostic => [
+        diagnostic.message,
+        diagnostic.range.start.line
+      ]),
+      [
+        ["Invalid front matter: authors[1].name is not of a type(s) string", 4],
+        ["Invalid front matter: orphan is not of a type(s) boolean", 5]
+      ]
+    )
+  })
+})
+
+suite("yamlPathLine", () => {
+  const lines = [
+    "title: Title",
+    "authors:",
+    "  - Name",
+    "  - name: Other",
+    "    email: x"
+  ]
+
+  test("Finds the lines of keys and list items", () => {
+    assert.strictEqual(yamlPathLine(lines, ["title"]), 0)
+    assert.strictEqual(yamlPathLine(lines, ["authors", 1, "email"]), 4)
+  })
+
+  test("Falls back to the closest parent", () => {
+    assert.strictEqual(yamlPathLine(lines, ["authors", 1, "orcid"]), 3)
+    assert.strictEqual(yamlPathLine(lines, ["missing"]), -1)
+  })
+})
+
+suite("Front matter", () => {
+  test("Checks if a document is an orphan", () => {
+    assert.strictEqual(isOrphan(frontMatter("orphan: true")), true)
+    assert.strictEqual(isOrphan(frontMatter("orphan: false")), false)
+    assert.strictEqual(isOrphan(frontMatter("orphan: [")), false)
+  })
+
+  test("Completes keys by the schema", () => {
+    const token = frontMatter("authors:\n  - name: Name\n    em")
+    const items = completeFrontMatter(token, { line: 3, character: 6 })
+    assert.deepStrictEqual(
+      items.map(item => [item.label, item.textEdit?.newText]),
+      [["email", "email: "]]
+    )
+  })
+
+  test("Describes a key on hover", () => {
+    const token = frontMatter("title: Title\norphan: true")
+    const hover = hoverFrontMatter(token, { line: 2, character: 2 })
+    assert.match(hover?.value || "", /^\*\*orphan\*\* \(boolean\)/)
+    assert.strictEqual(hoverFrontMatter(token, { line: 2, character: 10 }), null)
+  })
+})
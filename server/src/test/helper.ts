@@ -0,0 +1,91 @@
+/* --------------------------------------------------------------------------------------------
+ * Licensed under the MIT License. See License file in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+
+import fs from "fs"
+import os from "os"
+import path from "path"
+import { TextDocument } from "vscode-languageserver-textdocument"
+import { URI } from "vscode-uri"
+
+import { DocCache } from "../database"
+import { parseTextDocument } from "../parser"
+import { IWorkspace, MystProject } from "../project"
+
+/** Parse a document, and store it in the cache and the project index, as the server does */
+export function openDocument(
+  project: MystProject,
+  cache: DocCache,
+  uri: string,
+  text: string
+): TextDocument {
+  const doc = TextDocument.create(uri, "markdown", 1, text)
+  const data = parseTextDocument(doc, project.config)
+  cache.setData(uri, {
+    tokens: data.tokens,
+    lineToTokenIndex: data.lineToTokenIndex,
+    defs: data.definitions,
+    footnotes: data.footnotes,
+    refs: data.references,
+    substitutions: data.substitutions,
+    diagnostics: data.diagnostics
+  })
+  project.db.insertTargets(data.targets)
+  project.db.insertReferences(data.references)
+  project.db.insertHeadings(data.headings)
+  if (uri.startsWith("file:")) {
+    project.db.insertDocument({ uri })
+  }
+  return doc
+}
+
+/** The open documents of a single project, for the request handlers */
+export class TestWorkspace implements IWorkspace {
+  cache = new DocCache()
+  documents = new Map<string, TextDocument>()
+  project: MystProject
+
+  constructor(project = new MystProject(null)) {
+    this.project = project
+  }
+
+  getDocument(uri: string): TextDocument | undefined {
+    return this.documents.get(uri)
+  }
+
+  getProject(): MystProject {
+    return this.project
+  }
+
+  /** Open a document in the workspace */
+  open(uri: string, text: string): TextDocument {
+    const doc = openDocument(this.project, this.cache, uri, text)
+    this.documents.set(uri, doc)
+    return doc
+  }
+}
+
+/** Create a project in a temporary directory, containing the files */
+export function createProject(files: { [path: string]: string }): MystProject {
+  const rootPath = fs.mkdtempSync(path.join(os.tmpdir(), "myst-lsp-"))
+  for (const [filePath, content] of Object.entries(files)) {
+    fs.mkdirSync(path.dirname(path.join(rootPath, filePath)), { recursive: true })
+    fs.writeFileSync(path.join(rootPath, filePath), content)
+  }
+  return new MystProject(URI.file(rootPath).toString())
+}
+
+/** Get the uri of a file in a project */
+export function projectUri(project: MystProject, filePath: string): string {
+  return URI.file(
+    path.join(URI.parse(project.rootUri as string).fsPath, filePath)
+  ).toString()
+}
+
+/** Remove the temporary directory of a project */
+export function removeProject(project: MystProject): void {
+  fs.rmSync(URI.parse(project.rootUri as string).fsPath, {
+    recursive: true,
+    force: true
+  })
+}
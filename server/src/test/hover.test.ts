@@ -0,0 +1,63 @@
+/* --------------------------------------------------------------------------------------------
+ * Licensed under the MIT License. See License file in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+
+import * as assert from "assert"
+import { MarkupContent } from "vscode-languageserver"
+
+import { getHover } from "../hover"
+import { TestWorkspace } from "./helper"
+
+const A = "file:///a.md"
+const B = "file:///b.md"
+
+const TEXT = `---
+substitutions:
+  name: value
+---
+See {ref}\`my-target\` and [label] and {{ name }}.
+
+\`\`\`{note}
+Text
+\`\`\`
+
+[label]: https://example.com "Example"
+`
+
+suite("getHover", () => {
+  const workspace = new TestWorkspace()
+  workspace.open(A, "(my-target)=\n# Title\n")
+  workspace.open(B, TEXT)
+
+  /** Get the hover contents at a position */
+  function hover(line: number, character: number) {
+    const result = getHover(workspace, {
+      textDocument: { uri: B },
+      position: { line, character }
+    })
+    return (result?.contents as MarkupContent | undefined)?.value
+  }
+
+  test("Previews the target of a reference", () => {
+    assert.strictEqual(hover(4, 12), "`a.md:1`\n\n**Title**")
+  })
+
+  test("Shows the destination of a definition", () => {
+    assert.strictEqual(hover(4, 30), "Example\n\n<https://example.com>")
+  })
+
+  test("Shows the value of a substitution", () => {
+    assert.strictEqual(hover(4, 43), "value")
+  })
+
+  test("Describes front matter keys, directives and roles", () => {
+    assert.match(hover(1, 3) || "", /^\*\*substitutions\*\*/)
+    assert.match(hover(6, 5) || "", /Has Content: true/)
+    assert.match(hover(4, 6) || "", /ref/)
+  })
+
+  test("Shows nothing for plain text", () => {
+    assert.strictEqual(hover(4, 1), undefined)
+    assert.strictEqual(hover(7, 1), undefined)
+  })
+})
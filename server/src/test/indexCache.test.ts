@@ -0,0 +1,71 @@
+/* --------------------------------------------------------------------------------------------
+ * Licensed under the MIT License. See License file in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+
+import * as assert from "assert"
+import fs from "fs"
+import os from "os"
+import path from "path"
+import { URI } from "vscode-uri"
+
+import { indexCachePath } from "../indexCache"
+import { createProject, removeProject } from "./helper"
+
+suite("Index cache", () => {
+  const project = createProject({ "a.md": "# A\n", "b.md": "(b)=\n# B\n" })
+  const rootPath = URI.parse(project.rootUri as string).fsPath
+  const cacheHome = fs.mkdtempSync(path.join(os.tmpdir(), "myst-lsp-cache-"))
+  const xdgCacheHome = process.env.XDG_CACHE_HOME
+
+  suiteSetup(() => {
+    process.env.XDG_CACHE_HOME = cacheHome
+  })
+
+  suiteTeardown(() => {
+    if (xdgCacheHome === undefined) {
+      delete process.env.XDG_CACHE_HOME
+    } else {
+      process.env.XDG_CACHE_HOME = xdgCacheHome
+    }
+    removeProject(project)
+    fs.rmSync(cacheHome, { recursive: true, force: true })
+  })
+
+  test("Only parses files which are not cached", async () => {
+    assert.deepStrictEqual(await project.index(), { text: 2, jupyter: 0, parsed: 2 })
+    assert.ok(fs.existsSync(indexCachePath(rootPath)))
+    assert.deepStrictEqual(await project.index(), { text: 2, jupyter: 0, parsed: 0 })
+    assert.strictEqual(project.db.getTargets("b").length, 1)
+  })
+
+  test("Parses files which have been modified", async () => {
+    const future = new Date(Date.now() + 60000)
+    fs.utimesSync(path.join(rootPath, "a.md"), future, future)
+    assert.strictEqual((await project.index()).parsed, 1)
+    assert.strictEqual((await project.index()).parsed, 0)
+  })
+
+  test("Parses all files if the parsing configuration changes", async () => {
+    project.config = {
+      ...project.config,
+      parsing: { ...project.config.parsing, substitutions: { name: "value" } }
+    }
+    assert.strictEqual((await project.index()).parsed, 0)
+    project.config = {
+      ...project.config,
+      parsing: { ...project.config.parsing, heading_anchors: 2 }
+    }
+    assert.strictEqual((await project.index()).parsed, 2)
+    assert.strictEqual((await project.index({ cellUris: true })).parsed, 2)
+  })
+
+  test("Discards a cache with a different version", async () => {
+    const cachePath = indexCachePath(rootPath)
+    const cache = JSON.parse(fs.readFileSync(cachePath, "utf8"))
+    fs.writeFileSync(
+      cachePath,
+      JSON.stringify({ ...cache, version: cache.version - 1 })
+    )
+    assert.strictEqual((await project.index({ cellUris: true })).parsed, 2)
+  })
+})
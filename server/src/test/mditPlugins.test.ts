@@ -0,0 +1,81 @@
+/* --------------------------------------------------------------------------------------------
+ * Licensed under the MIT License. See License file in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+
+import * as assert from "assert"
+import MarkdownIt from "markdown-it"
+
+import { definitionPlugin } from "../mditPlugins/defintions"
+import { footnotePlugin } from "../mditPlugins/footnotes"
+import { amsmathPlugin, dollarmathPlugin } from "../mditPlugins/math"
+import { mystBlocksPlugin } from "../mditPlugins/mystBlocks"
+import { mystDivPlugin } from "../mditPlugins/mystDiv"
+
+function parse(text: string) {
+  const md = new MarkdownIt("commonmark")
+    .use(mystBlocksPlugin)
+    .use(mystDivPlugin)
+    .use(footnotePlugin)
+    .use(dollarmathPlugin)
+    .use(amsmathPlugin)
+    .use(definitionPlugin)
+  return md.parse(text, {})
+}
+
+function findToken(text: string, type: string) {
+  const token = parse(text).find(token => token.type === type)
+  assert.ok(token, `no ${type} token`)
+  return token
+}
+
+suite("markdown-it plugins", () => {
+  test("Parses MyST blocks", () => {
+    const tokens = parse('(target)=\n+++ {"a": 1}\n% comment\n')
+    assert.deepStrictEqual(
+      tokens.map(token => [token.type, token.content, token.map]),
+      [
+        ["myst_target", "target", [0, 1]],
+        ["myst_block_break", '{"a": 1}', [1, 2]],
+        ["myst_line_comment", " comment", [2, 3]]
+      ]
+    )
+  })
+
+  test("Parses colon fenced directives", () => {
+    const token = findToken(":::{note} arg\n:key: val\ncontent\n:::\n", "div_open")
+    assert.strictEqual(token.info, "{note} arg")
+    assert.deepStrictEqual(token.map, [0, 3])
+  })
+
+  test("Parses math blocks with labels", () => {
+    const token = findToken("$$\nx\n$$ (lbl)\n", "math_block")
+    assert.strictEqual(token.info, "lbl")
+    assert.strictEqual(token.content, "x")
+    assert.deepStrictEqual(token.map, [0, 3])
+    assert.ok(token.meta.closed)
+    assert.ok(!findToken("$$\nx\n", "math_block").meta.closed)
+  })
+
+  test("Parses amsmath environments", () => {
+    const token = findToken("\\begin{align*}\na\n\\end{align*}\n", "amsmath")
+    assert.deepStrictEqual(token.meta, { environment: "align*", numbered: false })
+    assert.deepStrictEqual(token.map, [0, 3])
+  })
+
+  test("Parses footnote definitions", () => {
+    const token = findToken("[^x]: foot\n  more\n", "footnote_reference_open")
+    assert.deepStrictEqual(token.meta, { label: "x" })
+    assert.deepStrictEqual(token.map, [0, 2])
+  })
+
+  test("Keeps link reference definitions as tokens", () => {
+    const token = findToken('[d]: /url "Title"\n', "definition")
+    assert.deepStrictEqual(token.meta, {
+      title: "Title",
+      href: "/url",
+      raw: "d",
+      key: "D"
+    })
+    assert.deepStrictEqual(token.map, [0, 0])
+  })
+})
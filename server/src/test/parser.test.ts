@@ -0,0 +1,166 @@
+/* --------------------------------------------------------------------------------------------
+ * Licensed under the MIT License. See License file in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+
+import * as assert from "assert"
+import { TextDocument } from "vscode-languageserver-textdocument"
+
+import { defaultConfig } from "../config"
+import { parseTextDocument } from "../parser"
+
+const TEXT = `# Title
+
+(my-target)=
+## Section
+
+:::{note}
+:name: my-note
+Text with [a link](my-target) and {ref}\`my-note\`.
+:::
+
+\`\`\`{unknown}
+\`\`\`
+
+See [full][missing] and [def].
+
+[def]: https://example.com "Example"
+`
+
+function parse(text: string) {
+  const config = defaultConfig()
+  config.parsing.heading_anchors = 2
+  const doc = TextDocument.create("file:///test.md", "markdown", 1, text)
+  return parseTextDocument(doc, config)
+}
+
+suite("parseTextDocument", () => {
+  const result = parse(TEXT)
+
+  test("Collects targets", () => {
+    assert.deepStrictEqual(
+      result.targets.map(target => [target.type, target.name, target.line]),
+      [
+        ["heading", "title", 0],
+        ["target", "my-target", 2],
+        ["heading", "section", 3],
+        ["name", "my-note", 5]
+      ]
+    )
+  })
+
+  test("Collects references", () => {
+    assert.deepStrictEqual(
+      result.references.map(ref => [ref.type, ref.name, ref.range.start.line]),
+      [
+        ["ref", "my-note", 7],
+        ["link", "my-target", 7],
+        ["definition", "MISSING", 13],
+        ["definition", "DEF", 13]
+      ]
+    )
+    const shortcuts = result.references.filter(ref => ref.shortcut).map(ref => ref.name)
+    assert.deepStrictEqual(shortcuts, ["DEF"])
+  })
+
+  test("Collects definitions", () => {
+    assert.deepStrictEqual(
+      result.definitions.map(def => [def.key, def.href, def.title, def.line]),
+      [["DEF", "https://example.com", "Example", 15]]
+    )
+  })
+
+  test("Collects footnotes and their references", () => {
+    const footnotes = parse("Footnote[^1] and [^missing].\n\n[^1]: The note.\n")
+    assert.deepStrictEqual(
+      footnotes.references.map(ref => [ref.type, ref.name]),
+      [
+        ["footnote", "1"],
+        ["footnote", "missing"]
+      ]
+    )
+    assert.deepStrictEqual(
+      footnotes.footnotes.map(footnote => [footnote.label, footnote.line]),
+      [["1", 2]]
+    )
+  })
+
+  test("Collects equation labels, with the math extensions", () => {
+    const config = defaultConfig()
+    config.parsing.extensions.push("dollarmath", "amsmath")
+    const doc = TextDocument.create(
+      "file:///test.md",
+      "markdown",
+      1,
+      "$$ a = 1 $$ (eq-one)\n\n\\begin{equation}\nb\n\\end{equation}\n\n$$\nunclosed\n"
+    )
+    const math = parseTextDocument(doc, config)
+    assert.deepStrictEqual(
+      math.targets.map(target => [target.type, target.name, target.line]),
+      [["equation", "eq-one", 0]]
+    )
+    assert.deepStrictEqual(
+      math.diagnostics.map(diagnostic => [
+        diagnostic.code,
+        diagnostic.range.start.line
+      ]),
+      [["unbalanced-math", 6]]
+    )
+  })
+
+  test("Collects glossary terms, case-insensitively", () => {
+    const glossary = parse(
+      "```{glossary}\nMyST\nMarkdown : format\n  Markedly Structured Text\n```\n\nSee {term}`myst`.\n"
+    )
+    assert.deepStrictEqual(
+      glossary.targets.map(target => [
+        target.type,
+        target.name,
+        target.line,
+        target.content
+      ]),
+      [
+        ["term", "myst", 1, "Markedly Structured Text"],
+        ["term", "markdown", 2, "Markedly Structured Text"]
+      ]
+    )
+    assert.deepStrictEqual(
+      glossary.references.map(ref => [ref.type, ref.name]),
+      [["term", "myst"]]
+    )
+    // the terms are completed as written
+    assert.deepStrictEqual(
+      glossary.targets.map(target => target.text),
+      ["MyST", "Markdown"]
+    )
+  })
+
+  test("Reports diagnostics", () => {
+    assert.deepStrictEqual(
+      result.diagnostics.map(diagnostic => [
+        diagnostic.message,
+        diagnostic.range.start.line
+      ]),
+      [["Unknown directive: unknown", 10]]
+    )
+  })
+
+  test("Accepts common and configured directive names", () => {
+    const config = defaultConfig()
+    config.parsing.directives.push("unknown")
+    const text = `${TEXT}\n\`\`\`{code-cell} python\nx\n\`\`\`\n\n:::{tab-set}\n:::\n`
+    const doc = TextDocument.create("file:///test.md", "markdown", 1, text)
+    assert.deepStrictEqual(parseTextDocument(doc, config).diagnostics, [])
+  })
+
+  test("Reports unknown roles, but not within code spans", () => {
+    const roles = parse("{unknown}`x` and `\\begin{align}` and `` {image}`x` ``\n")
+    assert.deepStrictEqual(
+      roles.diagnostics.map(diagnostic => [
+        diagnostic.message,
+        diagnostic.range.start.character,
+        diagnostic.range.end.character
+      ]),
+      [["Unknown role: unknown", 1, 8]]
+    )
+  })
+})
@@ -0,0 +1,134 @@
+/* --------------------------------------------------------------------------------------------
+ * Licensed under the MIT License. See License file in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+
+import * as assert from "assert"
+import fs from "fs"
+import { URI } from "vscode-uri"
+
+import { mergeConfig, readConfigFile } from "../config"
+import { DocCache } from "../database"
+import { MystProject } from "../project"
+import {
+  createProject,
+  openDocument,
+  projectUri,
+  removeProject,
+  TestWorkspace
+} from "./helper"
+
+suite("MystProject", () => {
+  test("Only reports full references without a definition", () => {
+    const project = new MystProject(null)
+    const cache = new DocCache()
+    const doc = openDocument(
+      project,
+      cache,
+      "file:///test.md",
+      "- [x] done, [sic], [text][missing] and [text][def]\n\n[def]: https://example.com\n"
+    )
+    assert.deepStrictEqual(
+      project
+        .getReferenceDiagnostics(cache, doc.uri, doc)
+        .map(diagnostic => [diagnostic.code, diagnostic.message]),
+      [["unknown-definition", "Unknown definition: missing"]]
+    )
+  })
+})
+
+suite("MystProject titles", () => {
+  test("Updates the titles of documents when their headings change", () => {
+    const project = new MystProject(null)
+    const cache = new DocCache()
+    const uri = "file:///a.md"
+    openDocument(project, cache, uri, "## Section\n\n# Title\n\n# Other\n")
+    openDocument(project, cache, "file:///b.md", "# B\n")
+    assert.strictEqual(project.getDocumentTitle(uri), "Title")
+    assert.strictEqual(project.getDocumentTitle("file:///c.md"), null)
+    project.db.removeUri(uri)
+    assert.strictEqual(project.getDocumentTitle(uri), null)
+    openDocument(project, cache, uri, "# New title\n")
+    assert.strictEqual(project.getDocumentTitle(uri), "New title")
+  })
+})
+
+suite("MystProject links", () => {
+  const project = createProject({
+    "chapter.md": "# Intro\n\n## Dup\n\n## Dup\n",
+    "index.md": ""
+  })
+  project.config.parsing.heading_anchors = 2
+  const workspace = new TestWorkspace(project)
+  workspace.open(projectUri(project, "chapter.md"), "# Intro\n\n## Dup\n\n## Dup\n")
+  suiteTeardown(() => removeProject(project))
+
+  function linkDiagnostics(text: string) {
+    const doc = workspace.open(projectUri(project, "index.md"), text)
+    return project
+      .getReferenceDiagnostics(workspace.cache, doc.uri, doc)
+      .map(diagnostic => diagnostic.message)
+  }
+
+  test("Reports unknown heading anchors", () => {
+    assert.deepStrictEqual(
+      linkDiagnostics("[a](chapter.md#dup-1) [b](chapter.md#nope)\n"),
+      ["Unknown heading anchor: chapter.md#nope"]
+    )
+  })
+
+  test("Does not report an empty anchor", () => {
+    assert.deepStrictEqual(linkDiagnostics("[a](chapter.md#)\n"), [])
+  })
+
+  test("Resolves the location of suffixed anchors", () => {
+    assert.strictEqual(
+      project.getFileLocation(projectUri(project, "index.md"), "chapter.md#dup-1")
+        ?.range.start.line,
+      4
+    )
+  })
+})
+
+suite("MystProject substitutions", () => {
+  const config = "parsing:\n  substitutions:\n    name: value\n"
+  const project = createProject({ "myst.yml": config })
+  const configUri = projectUri(project, "myst.yml")
+  const uri = projectUri(project, "index.md")
+
+  suiteTeardown(() => removeProject(project))
+
+  /** Load the configuration file of the project, as the server does */
+  function loadConfig() {
+    const rootPath = URI.parse(project.rootUri as string).fsPath
+    project.config = mergeConfig(readConfigFile(rootPath))
+  }
+
+  test("Finds the configured substitutions in the configuration file", () => {
+    loadConfig()
+    const cache = new DocCache()
+    openDocument(project, cache, uri, "---\nsubstitutions:\n  other: text\n---\n")
+    assert.deepStrictEqual(
+      [...project.getSubstitutions(cache, uri).values()].map(s => [
+        s.name,
+        s.value,
+        s.uri === configUri,
+        s.line
+      ]),
+      [
+        ["name", "value", true, 2],
+        ["other", "text", false, 2]
+      ]
+    )
+  })
+
+  test("Reads the configuration file only when the configuration changes", () => {
+    loadConfig()
+    const cache = new DocCache()
+    const lineOf = () => project.getSubstitutions(cache, uri).get("name")?.line
+    assert.strictEqual(lineOf(), 2)
+    fs.writeFileSync(URI.parse(configUri).fsPath, `# comment\n\n${config}`)
+    assert.strictEqual(lineOf(), 2)
+    loadConfig()
+    assert.strictEqual(lineOf(), 4)
+  })
+})
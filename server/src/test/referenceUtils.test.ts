@@ -0,0 +1,84 @@
+/* --------------------------------------------------------------------------------------------
+ * Licensed under the MIT License. See License file in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+
+import * as assert from "assert"
+
+import { parseCodeSpans, parseLineReferences } from "../referenceUtils"
+
+suite("parseLineReferences", () => {
+  test("Finds roles", () => {
+    assert.deepStrictEqual(
+      parseLineReferences("See {ref}`my-target` and {ref}`text <other>`"),
+      [
+        { type: "ref", name: "my-target", start: 10, end: 19 },
+        { type: "ref", name: "other", start: 37, end: 42 }
+      ]
+    )
+  })
+
+  test("Ignores role names within code spans", () => {
+    assert.deepStrictEqual(parseLineReferences("Use `{ref}` or `{numref}` roles"), [])
+    assert.deepStrictEqual(parseLineReferences("`{ref}`, {ref}`target` and `code`"), [
+      { type: "ref", name: "target", start: 15, end: 21 }
+    ])
+    assert.deepStrictEqual(parseLineReferences("{ref}``a `b` <target>``"), [
+      { type: "ref", name: "target", start: 14, end: 20 }
+    ])
+  })
+
+  test("Finds each key of a citation", () => {
+    assert.deepStrictEqual(parseLineReferences("{cite:p}`a,b` and {cite}`c`"), [
+      { type: "cite", name: "a", start: 9, end: 10 },
+      { type: "cite", name: "b", start: 11, end: 12 },
+      { type: "cite", name: "c", start: 25, end: 26 }
+    ])
+  })
+
+  test("Finds substitutions", () => {
+    assert.deepStrictEqual(parseLineReferences("{{ sub }} and {{ name | upper }}"), [
+      { type: "substitution", name: "sub", start: 3, end: 6 },
+      { type: "substitution", name: "name", start: 17, end: 21 }
+    ])
+  })
+
+  test("Finds footnote references", () => {
+    assert.deepStrictEqual(parseLineReferences("See [^note] and [link](x)"), [
+      { type: "footnote", name: "note", start: 6, end: 10 },
+      { type: "link", name: "x", start: 23, end: 24 }
+    ])
+  })
+
+  test("Finds links", () => {
+    assert.deepStrictEqual(
+      parseLineReferences("See [link](other.md#head) and <https://x.org>"),
+      [{ type: "link", name: "other.md#head", start: 11, end: 24 }]
+    )
+  })
+
+  test("Marks shortcut and collapsed definition references", () => {
+    const refs = parseLineReferences(
+      "[full][label], [collapsed][] and [short] but not [inline](x)"
+    )
+    assert.deepStrictEqual(
+      refs.filter(ref => ref.type === "definition"),
+      [
+        { type: "definition", name: "LABEL", start: 7, end: 12 },
+        { type: "definition", name: "COLLAPSED", start: 16, end: 25, shortcut: true },
+        { type: "definition", name: "SHORT", start: 34, end: 39, shortcut: true }
+      ]
+    )
+    assert.deepStrictEqual(parseLineReferences("- [x] done"), [
+      { type: "definition", name: "X", start: 3, end: 4, shortcut: true }
+    ])
+  })
+})
+
+suite("parseCodeSpans", () => {
+  test("Pairs backtick runs of the same length", () => {
+    assert.deepStrictEqual(parseCodeSpans("a ``b ` c`` {ref}`d` `e"), [
+      { start: 2, end: 11, content: "b ` c", contentStart: 4 },
+      { role: "ref", start: 12, end: 20, content: "d", contentStart: 18 }
+    ])
+  })
+})
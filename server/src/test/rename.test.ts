@@ -0,0 +1,118 @@
+/* --------------------------------------------------------------------------------------------
+ * Licensed under the MIT License. See License file in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+
+import * as assert from "assert"
+import { ResponseError } from "vscode-languageserver/node"
+
+import { prepareRename, renameSymbol } from "../navigation"
+import { TestWorkspace } from "./helper"
+
+const A = "file:///a.md"
+const B = "file:///b.md"
+
+function createWorkspace() {
+  const workspace = new TestWorkspace()
+  workspace.open(A, "(my-target)=\n# A\n")
+  workspace.open(
+    B,
+    "See {ref}`my-target` and [text](my-target).\n\nSee [text][label].\n\n[label]: https://example.com\n"
+  )
+  return workspace
+}
+
+suite("prepareRename", () => {
+  const workspace = createWorkspace()
+
+  test("Finds the target at a position", () => {
+    assert.deepStrictEqual(
+      prepareRename(workspace, {
+        textDocument: { uri: A },
+        position: { line: 0, character: 3 }
+      }),
+      { start: { line: 0, character: 1 }, end: { line: 0, character: 10 } }
+    )
+  })
+
+  test("Finds a reference at a position", () => {
+    assert.deepStrictEqual(
+      prepareRename(workspace, {
+        textDocument: { uri: B },
+        position: { line: 0, character: 12 }
+      }),
+      { start: { line: 0, character: 10 }, end: { line: 0, character: 19 } }
+    )
+  })
+
+  test("Finds nothing in plain text", () => {
+    assert.strictEqual(
+      prepareRename(workspace, {
+        textDocument: { uri: B },
+        position: { line: 0, character: 1 }
+      }),
+      null
+    )
+  })
+})
+
+suite("renameSymbol", () => {
+  const workspace = createWorkspace()
+
+  test("Renames a target and its references in all documents", () => {
+    const edit = renameSymbol(workspace, {
+      textDocument: { uri: A },
+      position: { line: 0, character: 3 },
+      newName: "new-target"
+    })
+    assert.ok(edit && !(edit instanceof ResponseError))
+    assert.deepStrictEqual(
+      Object.entries(edit.changes || {}).map(([uri, edits]) => [
+        uri,
+        edits.map(edit => [
+          edit.range.start.line,
+          edit.range.start.character,
+          edit.newText
+        ])
+      ]),
+      [
+        [A, [[0, 1, "new-target"]]],
+        [
+          B,
+          [
+            [0, 10, "new-target"],
+            [0, 32, "new-target"]
+          ]
+        ]
+      ]
+    )
+  })
+
+  test("Renames a definition and its references", () => {
+    const edit = renameSymbol(workspace, {
+      textDocument: { uri: B },
+      position: { line: 2, character: 13 },
+      newName: "other"
+    })
+    assert.ok(edit && !(edit instanceof ResponseError))
+    assert.deepStrictEqual(
+      edit.changes?.[B].map(edit => [
+        edit.range.start.line,
+        edit.range.start.character
+      ]),
+      [
+        [4, 1],
+        [2, 11]
+      ]
+    )
+  })
+
+  test("Rejects invalid names", () => {
+    const error = renameSymbol(workspace, {
+      textDocument: { uri: A },
+      position: { line: 0, character: 3 },
+      newName: "no spaces"
+    })
+    assert.ok(error instanceof ResponseError)
+    assert.strictEqual(error.message, "Invalid target name: no spaces")
+  })
+})
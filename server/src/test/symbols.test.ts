@@ -0,0 +1,71 @@
+/* --------------------------------------------------------------------------------------------
+ * Licensed under the MIT License. See License file in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+
+import * as assert from "assert"
+import { DocumentSymbol } from "vscode-languageserver/node"
+
+import { getDocumentSymbols, getWorkspaceSymbols } from "../symbols"
+import { TestWorkspace } from "./helper"
+
+const TEXT = `# Title
+(my-target)=
+## Section
+
+:::{note}
+:name: my-note
+Text
+:::
+
+# Second
+`
+
+/** Summarise symbols as their name, line range and children */
+function outline(symbols: DocumentSymbol[]): unknown[] {
+  return symbols.map(symbol => [
+    symbol.name,
+    symbol.range.start.line,
+    symbol.range.end.line,
+    ...(symbol.children?.length ? [outline(symbol.children)] : [])
+  ])
+}
+
+suite("getDocumentSymbols", () => {
+  test("Nests targets and directives under headings", () => {
+    const workspace = new TestWorkspace()
+    workspace.open("file:///test.md", TEXT)
+    const symbols = getDocumentSymbols(workspace, {
+      textDocument: { uri: "file:///test.md" }
+    })
+    assert.deepStrictEqual(outline(symbols), [
+      [
+        "Title",
+        0,
+        9,
+        [
+          ["my-target", 1, 1],
+          ["Section", 2, 9, [["my-note", 4, 5]]]
+        ]
+      ],
+      ["Second", 9, 11]
+    ])
+  })
+})
+
+suite("getWorkspaceSymbols", () => {
+  test("Fuzzy matches headings and targets", () => {
+    const workspace = new TestWorkspace()
+    workspace.open("file:///test.md", TEXT)
+    const symbols = getWorkspaceSymbols([workspace.project], { query: "mytgt" })
+    assert.deepStrictEqual(
+      symbols.map(symbol => [symbol.name, symbol.containerName]),
+      [["my-target", "test.md"]]
+    )
+    assert.deepStrictEqual(
+      getWorkspaceSymbols([workspace.project], { query: "sec" }).map(
+        symbol => symbol.name
+      ),
+      ["Section", "Second"]
+    )
+  })
+})
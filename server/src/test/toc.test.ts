@@ -0,0 +1,62 @@
+/* --------------------------------------------------------------------------------------------
+ * Licensed under the MIT License. See License file in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+
+import * as assert from "assert"
+
+import { parseToc } from "../toc"
+
+function entries(text: string, section = false) {
+  return parseToc(text, section)?.map(entry => [
+    entry.type,
+    entry.path,
+    entry.range.start.line,
+    entry.range.start.character
+  ])
+}
+
+suite("parseToc", () => {
+  test("Parses a Jupyter Book table of contents", () => {
+    const text = `format: jb-book
+root: intro
+chapters:
+- file: "ch1"
+  sections:
+  - glob: sec/*   # comment
+- url: https://x.org
+`
+    assert.deepStrictEqual(entries(text), [
+      ["file", "intro", 1, 6],
+      ["file", "ch1", 3, 9],
+      ["glob", "sec/*", 5, 10]
+    ])
+  })
+
+  test("Parses the toc section of a project config", () => {
+    const text = `version: 1
+project:
+  title: T
+  toc:
+    - file: index.md
+    - pattern: parts/*.md
+  other: 1
+site:
+  nav:
+    - file: nav.md
+`
+    assert.deepStrictEqual(entries(text, true), [
+      ["file", "index.md", 4, 12],
+      ["glob", "parts/*.md", 5, 15]
+    ])
+    assert.deepStrictEqual(entries("version: 1\ntoc:\n  - file: a.md\n", true), [
+      ["file", "a.md", 2, 10]
+    ])
+  })
+
+  test("Returns null without a toc section", () => {
+    assert.strictEqual(
+      parseToc("version: 1\nsite:\n  toc:\n    - file: a.md\n", true),
+      null
+    )
+  })
+})
@@ -0,0 +1,65 @@
+/* --------------------------------------------------------------------------------------------
+ * Licensed under the MIT License. See License file in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+
+import * as assert from "assert"
+import fs from "fs"
+import path from "path"
+import { FileChangeType, FileEvent } from "vscode-languageserver/node"
+import { URI } from "vscode-uri"
+
+import { createProject, projectUri, removeProject } from "./helper"
+
+/** Wait for file system events to be delivered */
+function settle(): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, 300))
+}
+
+suite("MystProject file watching", () => {
+  const project = createProject({ "index.md": "", "node_modules/dep/README.md": "" })
+  const rootPath = URI.parse(project.rootUri as string).fsPath
+  suiteTeardown(() => removeProject(project))
+
+  test("Only watches project files which are not ignored", () => {
+    assert.ok(project.isWatchedFile("docs/page.md"))
+    assert.ok(project.isWatchedFile("notebook.ipynb"))
+    assert.ok(project.isWatchedFile("_toc.yml"))
+    assert.ok(!project.isWatchedFile("docs/image.png"))
+    assert.ok(!project.isWatchedFile(".git/page.md"))
+    assert.ok(!project.isWatchedFile("node_modules/dep/README.md"))
+  })
+
+  test("Reports changes to project files", async () => {
+    const changes: FileEvent[] = []
+    const watcher = project.watchFiles(change => changes.push(change))
+    try {
+      fs.writeFileSync(path.join(rootPath, "node_modules/dep/README.md"), "changed")
+      fs.writeFileSync(path.join(rootPath, "index.md"), "# Changed\n")
+      fs.writeFileSync(path.join(rootPath, "image.png"), "")
+      await settle()
+    } finally {
+      watcher.dispose()
+    }
+    assert.ok(changes.length)
+    assert.ok(changes.every(change => change.uri === projectUri(project, "index.md")))
+  })
+
+  test("Watches newly configured files after re-watching", async () => {
+    const changes: FileEvent[] = []
+    project.config = {
+      ...project.config,
+      files: { ...project.config.files, text: ["**/*.txt"] }
+    }
+    const watcher = project.watchFiles(change => changes.push(change))
+    try {
+      fs.writeFileSync(path.join(rootPath, "notes.txt"), "")
+      fs.writeFileSync(path.join(rootPath, "index.md"), "# Changed again\n")
+      await settle()
+    } finally {
+      watcher.dispose()
+    }
+    assert.ok(changes.length)
+    assert.ok(changes.every(change => change.uri === projectUri(project, "notes.txt")))
+    assert.strictEqual(changes[0].type, FileChangeType.Created)
+  })
+})
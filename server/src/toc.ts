@@ -0,0 +1,95 @@
+import { Range } from "vscode-languageserver"
+
+/** The name of a Jupyter Book table of contents file, in the root of a project */
+export const TOC_FILE = "_toc.yml"
+
+/** An entry of a table of contents, which lists documents */
+export interface ITocEntry {
+  /** "file" for the path of a document, or "glob" for a pattern of paths */
+  type: "file" | "glob"
+  /** the path relative to the project root, which may omit the file extension */
+  path: string
+  /** the range of the path */
+  range: Range
+}
+
+/** The keys of entries which list documents, in both the Jupyter Book format,
+ * e.g. `root: intro` and `- file: chapter`, and the MyST format, e.g. `- pattern: *.md`
+ */
+const ENTRY_PATTERN =
+  /^(\s*)(-\s+)?(root|file|glob|pattern)\s*:\s*(["']?)([^"'#]*?)\4\s*(#.*)?$/
+
+/** Parse the entries of a table of contents, in their order
+ *
+ * @param text The YAML content of a `_toc.yml` file, or of a `myst.yml` file
+ * @param section Whether the entries are in the `toc` (or `project.toc`) section,
+ *   as in a `myst.yml` file
+ * @returns null if there is no `toc` section
+ */
+export function parseToc(text: string, section = false): ITocEntry[] | null {
+  const lines = text.split(/\r?\n/)
+  let start = 0
+  let end = lines.length
+  if (section) {
+    const range = tocSection(lines)
+    if (!range) {
+      return null
+    }
+    ;[start, end] = range
+  }
+  const entries: ITocEntry[] = []
+  for (let line = start; line < end; line++) {
+    const match = lines[line].match(ENTRY_PATTERN)
+    if (!match || !match[5]) {
+      continue
+    }
+    const character = lines[line].indexOf(match[5], match[0].indexOf(":") + 1)
+    entries.push({
+      type: match[3] === "glob" || match[3] === "pattern" ? "glob" : "file",
+      path: match[5],
+      range: {
+        start: { line, character },
+        end: { line, character: character + match[5].length }
+      }
+    })
+  }
+  return entries
+}
+
+/** Find the lines of the `toc` section of a `myst.yml` file,
+ * either at the top level or within the `project` section
+ */
+function tocSection(lines: string[]): [number, number] | null {
+  let inProject = false
+  let childIndent = -1
+  for (let line = 0; line < lines.length; line++) {
+    const match = lines[line].match(/^(\s*)([\w-]+)\s*:/)
+    if (!match) {
+      continue
+    }
+    const indent = match[1].length
+    if (indent === 0) {
+      inProject = match[2] === "project"
+      childIndent = -1
+    } else if (inProject && childIndent < 0) {
+      childIndent = indent
+    }
+    if (match[2] !== "toc" || (indent > 0 && (!inProject || indent !== childIndent))) {
+      continue
+    }
+    // the section ends at the next line that is not indented further
+    for (let next = line + 1; next < lines.length; next++) {
+      const nextIndent = lines[next].search(/\S/)
+      if (
+        nextIndent >= 0 &&
+        nextIndent <= indent &&
+        !lines[next].trim().startsWith("-") &&
+        !lines[next].trim().startsWith("#")
+      ) {
+        return [line + 1, next]
+      }
+    }
+    return [line + 1, lines.length]
+  }
+  return null
+}
@@ -1,4 +1,4 @@
-import { Position } from "vscode-languageserver"
+import { Position, Range } from "vscode-languageserver"
 import { TextDocument } from "vscode-languageserver-textdocument"
 
 /** get content of line in document */
@@ -15,6 +15,73 @@ export function getLine(doc: TextDocument, line: number): string {
   })
 }
 
+/** create a GitHub style slug for a heading, e.g. `My Heading!` -> `my-heading` */
+export function slugify(text: string): string {
+  return text
+    .trim()
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\p{M}_\- ]/gu, "")
+    .replace(/ /g, "-")
+}
+
+/** check if all characters of a query appear in order in a text (case-insensitive) */
+export function fuzzyMatch(query: string, text: string): boolean {
+  const lowerText = text.toLowerCase()
+  let pos = 0
+  for (const char of query.toLowerCase()) {
+    pos = lowerText.indexOf(char, pos) + 1
+    if (!pos) {
+      return false
+    }
+  }
+  return true
+}
+
+/** the number of single character edits (including transpositions) between two strings */
+export function editDistance(a: string, b: string): number {
+  const rows: number[][] = []
+  for (let i = 0; i <= a.length; i++) {
+    rows.push([i])
+  }
+  for (let j = 1; j <= b.length; j++) {
+    rows[0][j] = j
+  }
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1
+      rows[i][j] = Math.min(
+        rows[i - 1][j] + 1,
+        rows[i][j - 1] + 1,
+        rows[i - 1][j - 1] + cost
+      )
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        rows[i][j] = Math.min(rows[i][j], rows[i - 2][j - 2] + 1)
+      }
+    }
+  }
+  return rows[a.length][b.length]
+}
+
+/** find the candidates closest to a (misspelled) name, by edit distance */
+export function closestMatches(
+  name: string,
+  candidates: Iterable<string>,
+  limit = 3
+): string[] {
+  const maxDistance = Math.max(2, Math.ceil(name.length / 3))
+  const matches: [string, number][] = []
+  for (const candidate of new Set(candidates)) {
+    const distance = editDistance(name.toLowerCase(), candidate.toLowerCase())
+    if (candidate !== name && distance <= maxDistance) {
+      matches.push([candidate, distance])
+    }
+  }
+  return matches
+    .sort((a, b) => a[1] - b[1] || a[0].localeCompare(b[0]))
+    .slice(0, limit)
+    .map(([candidate]) => candidate)
+}
+
 // match either side of a position in a document
 // @param doc: The document to match in
 // @param position: The position in the document
@@ -122,3 +189,20 @@ export function matchReferenceDefinition(
   }
   return null
 }
+
+/** Check if a position is within a range */
+export function rangeContains(range: Range, position: Position): boolean {
+  if (position.line < range.start.line || position.line > range.end.line) {
+    return false
+  }
+  if (
+    position.line === range.start.line &&
+    position.character < range.start.character
+  ) {
+    return false
+  }
+  if (position.line === range.end.line && position.character > range.end.character) {
+    return false
+  }
+  return true
+}
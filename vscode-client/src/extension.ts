@@ -36,6 +36,10 @@ export function activate(context: ExtensionContext) {
     documentSelector: [
       { scheme: "file", language: "markdown" },
       { scheme: "file", language: "myst" },
+      // files which can contain the table of contents of a project,
+      // which the server only reads in a project root
+      { scheme: "file", pattern: "**/_toc.yml" },
+      { scheme: "file", pattern: "**/myst.yml" },
       { notebook: "*", language: "markdown" }
     ]
   }